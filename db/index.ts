@@ -2,3 +2,6 @@ import 'dotenv/config';
 import { drizzle } from 'drizzle-orm/node-postgres';
 
 export const db = drizzle(process.env.DATABASE_URL!);
+
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+export type DbExecutor = typeof db | Transaction;
@@ -1,30 +1,78 @@
 import {
+    type AnyPgColumn,
     boolean,
     integer,
     jsonb,
     numeric,
+    pgEnum,
     pgTable,
     primaryKey,
     text,
     timestamp,
+    unique,
     varchar,
   } from "drizzle-orm/pg-core";
+  import type { SpecField } from "../services/spec-template.service";
+  import type { PriceTier } from "../services/pricing.service";
+
+  // Read here so that the column default follows the setting on db:push
+  export const BASE_CURRENCY = (process.env.BASE_CURRENCY || "EUR").toUpperCase();
   
+  export const USER_ROLES = ["admin", "editor", "viewer"] as const;
+  export type UserRole = (typeof USER_ROLES)[number];
+
+  export const userRole = pgEnum("user_role", USER_ROLES);
+
   export const users = pgTable("users", {
     id: integer().primaryKey().generatedAlwaysAsIdentity(),
     username: varchar("username", { length: 100 }).unique().notNull(),
     password: text("password").notNull(),
+    email: varchar("email", { length: 255 }).unique(),
+    role: userRole("role").notNull().default("viewer"),
+    isActive: boolean("is_active").notNull().default(true),
+    createdAt: timestamp("created_at").defaultNow(),
   });
   
+  export const refreshTokens = pgTable("refresh_tokens", {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    userId: integer("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    tokenHash: varchar("token_hash", { length: 64 }).unique().notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+    revokedAt: timestamp("revoked_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  });
+  
+  export const PRODUCT_STATUSES = ["draft", "published", "archived"] as const;
+  export type ProductStatus = (typeof PRODUCT_STATUSES)[number];
+
+  export const productStatus = pgEnum("product_status", PRODUCT_STATUSES);
+
   export const product = pgTable("product", {
     id: integer().primaryKey().generatedAlwaysAsIdentity(),
     name: varchar({ length: 100 }).notNull(),
+    // Filled for existing rows by `bun run db:backfill-slugs`
+    slug: varchar({ length: 120 }).unique(),
     price: numeric("price"),
+    // ISO 4217 code of price and priceTiers
+    currency: varchar({ length: 3 }).notNull().default(BASE_CURRENCY),
+    // Shown as "from <price>", e.g. for configurable machines
+    priceIsStartingFrom: boolean("price_is_starting_from").notNull().default(false),
+    priceTiers: jsonb("price_tiers").$type<PriceTier[]>().notNull().default([]),
     isContactForPrice: boolean("is_contact_for_price").default(true),
     description: text("description").notNull(),
     machineData: jsonb("machine_data").notNull(),
     showInHero: boolean("show_in_hero").notNull(),
     heroIndex: integer("hero_index").notNull().default(0),
+    heroStartsAt: timestamp("hero_starts_at"),
+    heroEndsAt: timestamp("hero_ends_at"),
+    // Existing rows stay public, new products start as drafts (see POST /products)
+    status: productStatus("status").notNull().default("published"),
+    // A published product is only public from this point in time on
+    publishAt: timestamp("publish_at"),
+    // Set when moved to the trash, see services/trash.service.ts
+    deletedAt: timestamp("deleted_at"),
   });
   
   export const productImages = pgTable("product_images", {
@@ -33,6 +81,9 @@ import {
       .references(() => product.id, { onDelete: "cascade" })
       .notNull(),
     url: text("url").notNull(),
+    variants: jsonb("variants").$type<Record<string, string>>(),
+    position: integer("position").notNull().default(0),
+    isPrimary: boolean("is_primary").notNull().default(false),
     createdAt: timestamp("created_at").defaultNow(),
   });
   
@@ -40,9 +91,19 @@ import {
   
   export const category = pgTable("category", {
     id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    // Root categories have no parent, see services/category-tree.service.ts
+    parentId: integer("parent_id").references((): AnyPgColumn => category.id, {
+      onDelete: "set null",
+    }),
+    // Order among the children of the same parent
+    position: integer("position").notNull().default(0),
     name: varchar({ length: 100 }).notNull(),
+    slug: varchar({ length: 120 }).unique(),
     description: varchar({ length: 300 }).notNull(),
     imageUrl: varchar().default(""),
+    imageVariants: jsonb("image_variants").$type<Record<string, string>>(),
+    specTemplate: jsonb("spec_template").$type<SpecField[]>().notNull().default([]),
+    deletedAt: timestamp("deleted_at"),
   });
   
   export const productCategory = pgTable(
@@ -50,11 +111,149 @@ import {
     {
       productId: integer("product_id")
         .notNull()
-        .references(() => product.id),
+        .references(() => product.id, { onDelete: "cascade" }),
       categoryId: integer("category_id")
         .notNull()
         .references(() => category.id),
     },
     (table) => [primaryKey({ columns: [table.productId, table.categoryId] })]
   );
-  
\ No newline at end of file
+
+  export const INQUIRY_STATUSES = ["new", "contacted", "quoted", "closed"] as const;
+  export type InquiryStatus = (typeof INQUIRY_STATUSES)[number];
+
+  export const inquiryStatus = pgEnum("inquiry_status", INQUIRY_STATUSES);
+
+  export const inquiries = pgTable("inquiries", {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    productId: integer("product_id").references(() => product.id, {
+      onDelete: "set null",
+    }),
+    name: varchar({ length: 100 }).notNull(),
+    company: varchar({ length: 150 }),
+    email: varchar({ length: 255 }).notNull(),
+    phone: varchar({ length: 40 }),
+    quantity: integer().notNull().default(1),
+    message: text("message").notNull(),
+    status: inquiryStatus("status").notNull().default("new"),
+    assignedTo: integer("assigned_to").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    ipAddress: varchar("ip_address", { length: 45 }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  });
+
+  export const AUDIT_ENTITIES = ["product", "category", "user"] as const;
+  export type AuditEntity = (typeof AUDIT_ENTITIES)[number];
+
+  export const AUDIT_ACTIONS = ["create", "update", "delete", "restore", "purge"] as const;
+  export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+  export const auditEntity = pgEnum("audit_entity", AUDIT_ENTITIES);
+  export const auditAction = pgEnum("audit_action", AUDIT_ACTIONS);
+
+  export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+  export const auditLog = pgTable("audit_log", {
+    id: integer().primaryKey().generatedAlwaysAsIdentity(),
+    // Kept without a foreign key so entries survive the deletion of the user
+    userId: integer("user_id"),
+    username: varchar("username", { length: 100 }),
+    entityType: auditEntity("entity_type").notNull(),
+    entityId: integer("entity_id").notNull(),
+    action: auditAction("action").notNull(),
+    changes: jsonb("changes").$type<AuditChanges>().notNull(),
+    requestId: varchar("request_id", { length: 100 }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  });
+
+  // Versioned fields of a product, see services/product-revision.service.ts
+  export type ProductRevisionData = {
+    name: string;
+    description: string;
+    price: string | null;
+    isContactForPrice: boolean | null;
+    // Missing in revisions recorded before multi-currency pricing
+    currency?: string;
+    priceIsStartingFrom?: boolean;
+    priceTiers?: PriceTier[];
+    machineData: unknown;
+    categoryIds: number[];
+  };
+
+  export const productRevisions = pgTable(
+    "product_revisions",
+    {
+      id: integer().primaryKey().generatedAlwaysAsIdentity(),
+      productId: integer("product_id")
+        .references(() => product.id, { onDelete: "cascade" })
+        .notNull(),
+      revision: integer("revision").notNull(),
+      data: jsonb("data").$type<ProductRevisionData>().notNull(),
+      createdBy: integer("created_by").references(() => users.id, {
+        onDelete: "set null",
+      }),
+      createdAt: timestamp("created_at").defaultNow().notNull(),
+    },
+    (table) => [unique().on(table.productId, table.revision)]
+  );
+
+  export const SLUG_ENTITIES = ["product", "category"] as const;
+  export type SlugEntity = (typeof SLUG_ENTITIES)[number];
+
+  export const slugEntity = pgEnum("slug_entity", SLUG_ENTITIES);
+
+  // Previous slugs, used to redirect old URLs after a rename
+  export const slugHistory = pgTable(
+    "slug_history",
+    {
+      id: integer().primaryKey().generatedAlwaysAsIdentity(),
+      entityType: slugEntity("entity_type").notNull(),
+      entityId: integer("entity_id").notNull(),
+      slug: varchar({ length: 120 }).notNull(),
+      createdAt: timestamp("created_at").defaultNow().notNull(),
+    },
+    (table) => [unique().on(table.entityType, table.slug)]
+  );
+
+  // Units of a currency per one unit of BASE_CURRENCY
+  export const exchangeRates = pgTable("exchange_rates", {
+    currency: varchar({ length: 3 }).primaryKey(),
+    rate: numeric("rate").notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  });
+
+  // Content in other locales than DEFAULT_LOCALE, see services/translation.service.ts.
+  // Empty fields fall back to the next locale.
+  export const productTranslations = pgTable(
+    "product_translations",
+    {
+      id: integer().primaryKey().generatedAlwaysAsIdentity(),
+      productId: integer("product_id")
+        .references(() => product.id, { onDelete: "cascade" })
+        .notNull(),
+      locale: varchar({ length: 10 }).notNull(),
+      name: varchar({ length: 100 }),
+      description: text("description"),
+      // Labels of machineData keys, override the spec template labels
+      machineDataLabels: jsonb("machine_data_labels").$type<Record<string, string>>().notNull().default({}),
+      updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    },
+    (table) => [unique().on(table.productId, table.locale)]
+  );
+
+  export const categoryTranslations = pgTable(
+    "category_translations",
+    {
+      id: integer().primaryKey().generatedAlwaysAsIdentity(),
+      categoryId: integer("category_id")
+        .references(() => category.id, { onDelete: "cascade" })
+        .notNull(),
+      locale: varchar({ length: 10 }).notNull(),
+      name: varchar({ length: 100 }),
+      description: varchar({ length: 300 }),
+      updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    },
+    (table) => [unique().on(table.categoryId, table.locale)]
+  );
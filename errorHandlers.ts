@@ -1,6 +1,16 @@
 import { type Request, type Response, type NextFunction } from "express";
 import { StatusCodes } from "http-status-codes";
 import { ZodError } from "zod";
+import multer from "multer";
+import {
+  AppError,
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+  TooManyRequestsError,
+  ValidationError,
+} from "./errors";
+import { InvalidImageError } from "./services/image-processing.service";
 
 type AsyncRequestHandler = (
   req: Request,
@@ -9,17 +19,119 @@ type AsyncRequestHandler = (
 ) => Promise<void>;
 
 /**
- * Wraps an async request handler to catch and process errors
+ * Wraps an async request handler and forwards errors to the error middleware
  */
 export const tryCatch = (handler: AsyncRequestHandler) => {
   return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
       await handler(req, res, next);
     } catch (error) {
-      console.error("API Error:", error);
-      res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
-        error: "Internal server error",
-      });
+      next(error);
     }
   };
-};
\ No newline at end of file
+};
+
+export const zodErrorToValidationError = (error: ZodError) =>
+  new ValidationError(
+    error.errors.map((err) => ({
+      path: err.path.join("."),
+      message: err.message,
+    }))
+  );
+
+const isPostgresError = (error: unknown): error is { code: string; detail?: string } =>
+  typeof error === "object" &&
+  error !== null &&
+  typeof (error as { code?: unknown }).code === "string" &&
+  /^[0-9A-Z]{5}$/.test((error as { code: string }).code);
+
+/**
+ * Maps known errors (database, multer, zod, body parser) onto AppErrors
+ */
+const toAppError = (error: unknown): AppError | null => {
+  if (error instanceof AppError) {
+    return error;
+  }
+
+  if (error instanceof ZodError) {
+    return zodErrorToValidationError(error);
+  }
+
+  if (error instanceof multer.MulterError) {
+    return error.code === "LIMIT_FILE_SIZE"
+      ? new AppError(StatusCodes.REQUEST_TOO_LONG, "FILE_TOO_LARGE", `Upload error: ${error.message}`)
+      : new BadRequestError(`Upload error: ${error.message}`, "UPLOAD_ERROR");
+  }
+
+  if (error instanceof InvalidImageError) {
+    return new BadRequestError(error.message, "INVALID_IMAGE");
+  }
+
+  if (error instanceof SyntaxError && (error as { type?: string }).type === "entity.parse.failed") {
+    return new BadRequestError("Malformed JSON body", "INVALID_JSON");
+  }
+
+  // drizzle wraps driver errors, the postgres error is the cause
+  const dbError = isPostgresError(error)
+    ? error
+    : error instanceof Error && isPostgresError(error.cause)
+      ? error.cause
+      : null;
+
+  if (dbError) {
+    switch (dbError.code) {
+      case "23505":
+        return new ConflictError("A record with the same unique value already exists", "UNIQUE_VIOLATION");
+      case "23503":
+        return new ConflictError("The record is referenced by or references another record", "FOREIGN_KEY_VIOLATION");
+      case "22P02":
+        return new BadRequestError("Invalid input value", "INVALID_INPUT");
+      case "22001":
+        return new BadRequestError("A value is longer than allowed", "VALUE_TOO_LONG");
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Responds to unknown routes
+ */
+export const notFoundHandler = (req: Request, _: Response, next: NextFunction) => {
+  next(new NotFoundError(`Route ${req.method} ${req.path} not found`));
+};
+
+/**
+ * Turns every error into a consistent JSON body:
+ * `{ error, code, details?, requestId }`
+ */
+export const errorHandler = (
+  error: unknown,
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  // Express closes the connection when the response has already started
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+
+  const appError = toAppError(error);
+
+  if (!appError) {
+    console.error(`API Error [${req.requestId}]:`, error);
+  }
+
+  if (appError instanceof TooManyRequestsError) {
+    res.setHeader("Retry-After", String(appError.retryAfterSeconds));
+  }
+
+  res.status(appError?.statusCode ?? StatusCodes.INTERNAL_SERVER_ERROR).json({
+    error: appError?.message ?? "Internal server error",
+    code: appError?.code ?? "INTERNAL_ERROR",
+    ...(appError?.details && { details: appError.details }),
+    ...(appError instanceof TooManyRequestsError && { retryAfter: appError.retryAfterSeconds }),
+    requestId: req.requestId,
+  });
+};
@@ -0,0 +1,67 @@
+import { StatusCodes } from "http-status-codes";
+
+export type ErrorDetail = {
+  path: string;
+  message: string;
+};
+
+/**
+ * Base class for errors that map to a specific HTTP response
+ */
+export class AppError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    public readonly code: string,
+    message: string,
+    public readonly details?: ErrorDetail[]
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class BadRequestError extends AppError {
+  constructor(message: string, code = "BAD_REQUEST") {
+    super(StatusCodes.BAD_REQUEST, code, message);
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(details: ErrorDetail[], message = "Validation error") {
+    super(StatusCodes.BAD_REQUEST, "VALIDATION_ERROR", message, details);
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message = "Authentication required", code = "UNAUTHORIZED") {
+    super(StatusCodes.UNAUTHORIZED, code, message);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message = "Insufficient permissions", code = "FORBIDDEN") {
+    super(StatusCodes.FORBIDDEN, code, message);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message = "Resource not found") {
+    super(StatusCodes.NOT_FOUND, "NOT_FOUND", message);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, code = "CONFLICT") {
+    super(StatusCodes.CONFLICT, code, message);
+  }
+}
+
+export class TooManyRequestsError extends AppError {
+  constructor(message: string, public readonly resetAt: Date) {
+    super(StatusCodes.TOO_MANY_REQUESTS, "TOO_MANY_REQUESTS", message);
+  }
+
+  get retryAfterSeconds() {
+    return Math.max(1, Math.ceil((this.resetAt.getTime() - Date.now()) / 1000));
+  }
+}
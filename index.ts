@@ -1,49 +1,77 @@
-import Express, { type Request, type Response } from "express";
+import Express, { type Router } from "express";
 import { categoriesRouter } from "./routes/category.route";
-import multer from "multer";
-import path from "path";
 import cors from 'cors';
 import { productsRouter } from "./routes/products.route";
 import { authRouter } from "./routes/auth.route";
-// Fix the storage path
-const uploadDir = path.join(__dirname, 'uploads/categories');
-const storage = multer.diskStorage({
-  destination: function(req, file, cb) {
-    cb(null, uploadDir);
-  },
-  filename: function(req, file, cb) {
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-    const ext = path.extname(file.originalname);
-    cb(null, file.fieldname + '-' + uniqueSuffix + ext);
-  }
-});
-
-const upload = multer({ storage: storage });
+import { heroRouter } from "./routes/hero.route";
+import { inquiriesRouter, productInquiriesRouter } from "./routes/inquiry.route";
+import { auditRouter } from "./routes/audit.route";
+import { exchangeRatesRouter } from "./routes/exchange-rate.route";
+import {
+  categoryTranslationsRouter,
+  productTranslationsRouter,
+  translationsRouter,
+} from "./routes/translation.route";
+import { docsRouter } from "./routes/docs.route";
+import { uploadRouter } from "./routes/upload.route";
+import { writeRateLimit } from "./middlewares/rate-limit.middleware";
+import { requestId } from "./middlewares/request-id.middleware";
+import { resolveLocale } from "./middlewares/locale.middleware";
+import { errorHandler, notFoundHandler } from "./errorHandlers";
+import { LOCAL_UPLOAD_DIR, STORAGE_DRIVER } from "./services/storage";
+import { registerRoutes } from "./services/openapi.service";
+import { startTrashPurgeJob } from "./services/trash.service";
+
+// "true"/"false", a hop count, or IPs and subnets as Express accepts them
+const parseTrustProxy = (value: string) => {
+  if (value === "true" || value === "false") return value === "true";
+  if (/^\d+$/.test(value)) return Number(value);
+  return value;
+};
 
 const app = Express();
+// Needed behind a reverse proxy so that rate limits see the client IP
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', parseTrustProxy(process.env.TRUST_PROXY));
+}
+app.use(requestId);
 app.use(cors())
+app.use(resolveLocale);
 app.use(Express.json());
+app.use(writeRateLimit);
+
+// Uploaded files are only served by the API when stored on the local disk
+if (STORAGE_DRIVER === "local") {
+  app.use('/uploads', Express.static(LOCAL_UPLOAD_DIR));
+}
+
+// Mounted and documented in one place so that /openapi.json covers every route
+const routers: [string, Router][] = [
+  ['/categories/:id/translations', categoryTranslationsRouter],
+  ['/categories', categoriesRouter],
+  ['/products/:id/inquiries', productInquiriesRouter],
+  ['/products/:id/translations', productTranslationsRouter],
+  ['/products', productsRouter],
+  ["/auth", authRouter],
+  ["/hero", heroRouter],
+  ["/inquiries", inquiriesRouter],
+  ["/audit-log", auditRouter],
+  ["/exchange-rates", exchangeRatesRouter],
+  ["/translations", translationsRouter],
+  ["/upload", uploadRouter],
+];
+
+for (const [path, router] of routers) {
+  app.use(path, router);
+  registerRoutes(path, router);
+}
+app.use(docsRouter);
+
+app.use(notFoundHandler);
+app.use(errorHandler);
+
+if (process.env.TRASH_PURGE_JOB !== "false") {
+  startTrashPurgeJob();
+}
 
-// For serving static files
-app.use('/uploads', Express.static(path.join(__dirname, 'uploads')));
-
-app.use('/categories', categoriesRouter);
-app.use('/products', productsRouter);
-app.use("/auth", authRouter);
-
-app.post('/upload/categories', upload.single('image'), async (req: Request, res: Response) => {
-  if (!req.file) {
-    res.status(400).json({ error: "No file received" });
-    return;
-  }
-  
-  // Create the file URL
-  const fileUrl = `${req.protocol}://${req.get('host')}/uploads/categories/${req.file.filename}`;
-  
-  // Send the URL to frontend
-  res.status(200).json({ 
-    success: true, 
-    fileUrl: fileUrl
-  });
-});
-app.listen(3000, '0.0.0.0', () => console.log(`Server started in http://localhost:3000/`));
\ No newline at end of file
+app.listen(3000, '0.0.0.0', () => console.log(`Server started in http://localhost:3000/`));
@@ -1,16 +1,24 @@
+import "dotenv/config";
 import { type Request, type Response, type NextFunction } from "express";
-import { StatusCodes } from "http-status-codes";
-import jwt from "jsonwebtoken";
+import jwt, { type SignOptions } from "jsonwebtoken";
+import { type UserRole } from "../db/schema";
+import { ForbiddenError, UnauthorizedError } from "../errors";
 
-const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
+if (!process.env.JWT_SECRET) {
+  throw new Error("JWT_SECRET must be set to start the server");
+}
+
+const JWT_SECRET = process.env.JWT_SECRET;
+export const ACCESS_TOKEN_TTL = (process.env.ACCESS_TOKEN_TTL || "15m") as SignOptions["expiresIn"];
 
-interface JWTPayload {
+export interface JWTPayload {
   userId: number;
   username: string;
+  role: UserRole;
 }
 
-export const generateToken = (userId: number, username: string) => {
-  return jwt.sign({ userId, username } as JWTPayload, JWT_SECRET, { expiresIn: "24h" });
+export const generateToken = (userId: number, username: string, role: UserRole) => {
+  return jwt.sign({ userId, username, role } as JWTPayload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
 };
 
 export const authenticateToken = async (
@@ -22,9 +30,7 @@ export const authenticateToken = async (
   const token = authHeader && authHeader.split(" ")[1];
 
   if (!token) {
-    res.status(StatusCodes.UNAUTHORIZED).json({
-      error: "Authentication required",
-    });
+    next(new UnauthorizedError());
     return;
   }
 
@@ -33,9 +39,57 @@ export const authenticateToken = async (
     req.user = user;
     next();
   } catch (error) {
-    res.status(StatusCodes.FORBIDDEN).json({
-      error: "Invalid or expired token",
-    });
-    return;
+    // 401 tells clients to get a new access token through POST /auth/refresh
+    next(
+      error instanceof jwt.TokenExpiredError
+        ? new UnauthorizedError("Access token expired", "TOKEN_EXPIRED")
+        : new UnauthorizedError("Invalid access token", "INVALID_TOKEN")
+    );
+  }
+};
+
+/**
+ * Sets req.user when a valid token is sent and lets the request through
+ * anonymously otherwise, for public routes that show more to signed in users
+ */
+export const optionalAuthentication = (req: Request, _: Response, next: NextFunction): void => {
+  const authHeader = req.headers["authorization"];
+  const token = authHeader && authHeader.split(" ")[1];
+
+  if (token) {
+    try {
+      req.user = jwt.verify(token, JWT_SECRET) as JWTPayload;
+    } catch (error) {
+      req.user = undefined;
+    }
   }
-}; 
\ No newline at end of file
+
+  next();
+};
+
+// Read by services/openapi.service.ts to document who may call a route
+const authorizedRoles = new WeakMap<Function, UserRole[]>();
+
+export const getAuthorizedRoles = (handler: Function) => authorizedRoles.get(handler);
+
+/**
+ * Restricts a route to the given roles. Must run after authenticateToken.
+ */
+export const authorize = (...roles: UserRole[]) => {
+  const handler = (req: Request, _: Response, next: NextFunction): void => {
+    if (!req.user) {
+      next(new UnauthorizedError());
+      return;
+    }
+
+    if (!req.user.role || !roles.includes(req.user.role)) {
+      next(new ForbiddenError());
+      return;
+    }
+
+    next();
+  };
+
+  authorizedRoles.set(handler, roles);
+  return handler;
+};
@@ -0,0 +1,58 @@
+import { rm } from "node:fs/promises";
+import { type Request, type Response, type NextFunction } from "express";
+import multer from "multer";
+import { getImageFiles, processImages } from "../services/image-processing.service";
+import { deleteStoredFiles } from "../services/storage";
+
+const MAX_IMAGE_SIZE = 50 * 1024 * 1024;
+
+type ImageUploadOptions = {
+  field: string;
+  maxCount: number;
+  folder: string;
+};
+
+/**
+ * Accepts multipart image uploads, verifies them by their magic bytes and
+ * stores resized WebP variants. Uploads are buffered in temporary files, not
+ * in memory, and removed once processed. The results are exposed as
+ * req.processedImages and removed again when the request ends in an error.
+ */
+export const uploadImages = ({ field, maxCount, folder }: ImageUploadOptions) => {
+  const upload = multer({
+    // Without a destination multer writes to the OS temp directory
+    storage: multer.diskStorage({}),
+    limits: {
+      fileSize: MAX_IMAGE_SIZE,
+      files: maxCount,
+    },
+  }).array(field, maxCount);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, async (err: unknown) => {
+      if (err) {
+        next(err);
+        return;
+      }
+
+      const files = Array.isArray(req.files) ? req.files : [];
+
+      try {
+        const processedImages = await processImages(files, folder);
+        req.processedImages = processedImages;
+
+        res.on("finish", () => {
+          if (res.statusCode >= 400) {
+            void deleteStoredFiles(processedImages.flatMap((image) => getImageFiles(image)));
+          }
+        });
+
+        next();
+      } catch (error) {
+        next(error);
+      } finally {
+        await Promise.all(files.map((file) => rm(file.path, { force: true })));
+      }
+    });
+  };
+};
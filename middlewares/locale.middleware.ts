@@ -0,0 +1,18 @@
+import { type Request, type Response, type NextFunction } from "express";
+import { buildLocaleChain, parseAcceptLanguage } from "../services/translation.service";
+
+/**
+ * Sets req.locales, the fallback chain content is translated along.
+ * `?lang=` takes precedence over the Accept-Language header; unsupported
+ * locales are skipped and end up at the default locale.
+ */
+export const resolveLocale = (req: Request, res: Response, next: NextFunction) => {
+  const lang = typeof req.query.lang === "string" ? req.query.lang : undefined;
+
+  req.locales = buildLocaleChain([
+    ...(lang !== undefined ? [lang] : []),
+    ...parseAcceptLanguage(req.get("Accept-Language")),
+  ]);
+  res.vary("Accept-Language");
+  next();
+};
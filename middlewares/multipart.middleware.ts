@@ -0,0 +1,34 @@
+import { type Request, type Response, type NextFunction } from "express";
+
+/**
+ * Multipart forms only carry strings. Brings such a body into the shape of
+ * the JSON body so that both are validated by the same schema: empty fields
+ * count as not sent and the given fields are parsed from JSON strings
+ * (objects, arrays, numbers, booleans and null). Values that are not valid
+ * JSON are left as they are for the schema to report.
+ */
+export const parseMultipartFields = (...jsonFields: string[]) => {
+  return (req: Request, _: Response, next: NextFunction) => {
+    if (!req.is("multipart/form-data") || typeof req.body !== "object" || req.body === null) {
+      next();
+      return;
+    }
+
+    const body: Record<string, unknown> = { ...req.body };
+
+    for (const [field, value] of Object.entries(body)) {
+      if (value === "") {
+        delete body[field];
+      } else if (jsonFields.includes(field) && typeof value === "string") {
+        try {
+          body[field] = JSON.parse(value);
+        } catch {
+          // Left for the schema to report
+        }
+      }
+    }
+
+    req.body = body;
+    next();
+  };
+};
@@ -0,0 +1,68 @@
+import { type Request, type Response, type NextFunction } from "express";
+import { TooManyRequestsError } from "../errors";
+import { rateLimitStore, type RateLimitStore } from "../services/rate-limit";
+
+type RateLimitOptions = {
+  /** Namespaces the counters of this limiter in the store */
+  name: string;
+  windowMs: number;
+  max: number;
+  keyGenerator?: (req: Request) => string;
+  skip?: (req: Request) => boolean;
+  store?: RateLimitStore;
+};
+
+/**
+ * Limits requests per key (the client IP by default) within a fixed window.
+ * When the store is unavailable requests are let through.
+ */
+export const rateLimit = ({
+  name,
+  windowMs,
+  max,
+  keyGenerator = (req) => req.ip ?? "unknown",
+  skip,
+  store = rateLimitStore,
+}: RateLimitOptions) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (skip?.(req)) {
+      next();
+      return;
+    }
+
+    let hit;
+    try {
+      hit = await store.increment(`${name}:${keyGenerator(req)}`, windowMs);
+    } catch (error) {
+      console.error("Rate limit store error:", error);
+      next();
+      return;
+    }
+
+    res.setHeader("X-RateLimit-Limit", String(max));
+    res.setHeader("X-RateLimit-Remaining", String(Math.max(0, max - hit.count)));
+    res.setHeader("X-RateLimit-Reset", String(Math.ceil(hit.resetAt.getTime() / 1000)));
+
+    if (hit.count > max) {
+      next(new TooManyRequestsError("Too many requests, please try again later", hit.resetAt));
+      return;
+    }
+
+    next();
+  };
+};
+
+const READ_METHODS = ["GET", "HEAD", "OPTIONS"];
+
+export const writeRateLimit = rateLimit({
+  name: "write",
+  windowMs: Number(process.env.RATE_LIMIT_WRITE_WINDOW_MS) || 60 * 1000,
+  max: Number(process.env.RATE_LIMIT_WRITE_MAX) || 60,
+  skip: (req) => READ_METHODS.includes(req.method),
+});
+
+export const loginIpRateLimit = rateLimit({
+  name: "login-ip",
+  windowMs: Number(process.env.LOGIN_IP_WINDOW_MS) || 15 * 60 * 1000,
+  max: Number(process.env.LOGIN_IP_MAX) || 20,
+});
@@ -0,0 +1,14 @@
+import { type Request, type Response, type NextFunction } from "express";
+import { v4 as uuidv4 } from "uuid";
+
+const REQUEST_ID_HEADER = "X-Request-Id";
+
+/**
+ * Tags every request with an id, reusing a sane incoming X-Request-Id header
+ */
+export const requestId = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  req.requestId = incoming && /^[\w-]{1,100}$/.test(incoming) ? incoming : uuidv4();
+  res.setHeader(REQUEST_ID_HEADER, req.requestId);
+  next();
+};
@@ -0,0 +1,15 @@
+import multer from "multer";
+
+const MAX_SPREADSHEET_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Accepts a single CSV or XLSX upload in the `file` field, kept in memory
+ * as req.file
+ */
+export const uploadSpreadsheet = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_SPREADSHEET_SIZE,
+    files: 1,
+  },
+}).single("file");
@@ -1,6 +1,6 @@
 import { type Request, type Response, type NextFunction } from "express";
-import { StatusCodes } from "http-status-codes";
 import { type AnyZodObject, z } from "zod";
+import { zodErrorToValidationError } from "../errorHandlers";
 
 type ValidationSchema = {
   body?: AnyZodObject;
@@ -8,8 +8,13 @@ type ValidationSchema = {
   params?: AnyZodObject;
 };
 
+// Read by services/openapi.service.ts to document the request of a route
+const requestSchemas = new WeakMap<Function, ValidationSchema>();
+
+export const getRequestSchemas = (handler: Function) => requestSchemas.get(handler);
+
 export const validateRequest = (schemas: ValidationSchema) => {
-  return async (
+  const handler = async (
     req: Request,
     res: Response,
     next: NextFunction
@@ -20,7 +25,13 @@ export const validateRequest = (schemas: ValidationSchema) => {
       }
 
       if (schemas.query) {
-        req.query = await schemas.query.parseAsync(req.query);
+        // Express 5 exposes req.query as a getter, so it has to be redefined
+        Object.defineProperty(req, "query", {
+          value: await schemas.query.parseAsync(req.query),
+          writable: true,
+          enumerable: true,
+          configurable: true,
+        });
       }
 
       if (schemas.params) {
@@ -30,19 +41,16 @@ export const validateRequest = (schemas: ValidationSchema) => {
       next();
     } catch (error) {
       if (error instanceof z.ZodError) {
-        res.status(StatusCodes.BAD_REQUEST).json({
-          error: "Validation error",
-          details: error.errors.map((err) => ({
-            path: err.path.join("."),
-            message: err.message,
-          })),
-        });
+        next(zodErrorToValidationError(error));
         return;
       }
 
       next(error);
     }
   };
+
+  requestSchemas.set(handler, schemas);
+  return handler;
 };
 
 
@@ -0,0 +1,67 @@
+import { Router } from "express";
+import { StatusCodes } from "http-status-codes";
+import { and, count, desc, eq, gte, lte, type SQL } from "drizzle-orm";
+import { type Request, type Response } from "express";
+import { db } from "../db";
+import { auditLog } from "../db/schema";
+import { tryCatch } from "../errorHandlers";
+import { validateRequest } from "../middlewares/validate.middleware";
+import { authenticateToken, authorize } from "../middlewares/auth.middleware";
+import { paginated } from "../schemas/common.schema";
+import {
+  auditLogEntrySchema,
+  auditLogQuerySchema,
+  type AuditLogQuery,
+} from "../schemas/audit.schema";
+import { describeRoute, errors, json } from "../services/openapi.service";
+
+const router = Router();
+
+router.use(authenticateToken, authorize("admin"));
+
+router.get(
+  "/",
+  describeRoute({
+    tags: ["Audit log"],
+    summary: "Search the audit log",
+    responses: { 200: json(paginated(auditLogEntrySchema)), ...errors(400, 401, 403) },
+  }),
+  validateRequest({ query: auditLogQuerySchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const query = req.query as unknown as AuditLogQuery;
+
+    const conditions: SQL[] = [];
+    if (query.entityType) conditions.push(eq(auditLog.entityType, query.entityType));
+    if (query.entityId) conditions.push(eq(auditLog.entityId, query.entityId));
+    if (query.userId) conditions.push(eq(auditLog.userId, query.userId));
+    if (query.action) conditions.push(eq(auditLog.action, query.action));
+    if (query.from) conditions.push(gte(auditLog.createdAt, query.from));
+    if (query.to) conditions.push(lte(auditLog.createdAt, query.to));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(auditLog)
+      .where(where);
+
+    const entries = await db
+      .select()
+      .from(auditLog)
+      .where(where)
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(query.limit)
+      .offset((query.page - 1) * query.limit);
+
+    res.status(StatusCodes.OK).json({
+      data: entries,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit),
+      },
+    });
+  })
+);
+
+export { router as auditRouter };
@@ -1,64 +1,138 @@
 import { Router } from "express";
 import { StatusCodes } from "http-status-codes";
 import { z } from "zod";
-import { eq } from "drizzle-orm";
+import { asc, eq } from "drizzle-orm";
 import bcrypt from "bcrypt";
 import { type Request, type Response } from "express";
-import { db } from "../db";
-import { users } from "../db/schema";
+import { db, type DbExecutor } from "../db";
+import { USER_ROLES, users } from "../db/schema";
 import { tryCatch } from "../errorHandlers";
-import { generateToken } from "../middlewares/auth.middleware";
+import {
+  BadRequestError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  TooManyRequestsError,
+  UnauthorizedError,
+} from "../errors";
+import { validateRequest } from "../middlewares/validate.middleware";
+import { loginIpRateLimit } from "../middlewares/rate-limit.middleware";
+import {
+  authenticateToken,
+  authorize,
+  generateToken,
+} from "../middlewares/auth.middleware";
+import {
+  issueRefreshToken,
+  revokeAllRefreshTokens,
+  revokeRefreshToken,
+  rotateRefreshToken,
+} from "../services/token.service";
+import {
+  clearFailedLogins,
+  getLoginLockout,
+  recordFailedLogin,
+} from "../services/login-protection.service";
+import { notify } from "../services/notifications";
+import { recordAudit } from "../services/audit.service";
+import { idParamsSchema } from "../schemas/common.schema";
+import {
+  changePasswordSchema,
+  createUserSchema,
+  loginSchema,
+  refreshTokenSchema,
+  resetPasswordSchema,
+  sessionResponseSchema,
+  updateUserSchema,
+} from "../schemas/auth.schema";
+import { SuccessResponse, User, describeRoute, errors, json } from "../services/openapi.service";
 
 const router = Router();
 
-const authSchema = z.object({
-  username: z.string().min(3, "Username must be at least 3 characters"),
-  password: z.string().min(6, "Password must be at least 6 characters"),
-});
-
-// router.post(
-//   "/register",
-//   tryCatch(async (req: Request, res: Response): Promise<void> => {
-//     const { username, password } = authSchema.parse(req.body);
-
-//     const existingUser = await db
-//       .select()
-//       .from(users)
-//       .where(eq(users.username, username))
-//       .limit(1);
-
-//     if (existingUser.length > 0) {
-//       res.status(StatusCodes.CONFLICT).json({
-//         error: "Username already exists",
-//       });
-//       return;
-//     }
-
-//     const hashedPassword = await bcrypt.hash(password, 10);
-//     const [newUser] = await db
-//       .insert(users)
-//       .values({
-//         username,
-//         password: hashedPassword,
-//       })
-//       .returning();
-
-//     const token = generateToken(newUser.id, newUser.username);
-
-//     res.status(StatusCodes.CREATED).json({
-//       token,
-//       user: {
-//         id: newUser.id,
-//         username: newUser.username,
-//       },
-//     });
-//   })
-// );
+const PASSWORD_SALT_ROUNDS = 10;
+
+// Columns that are safe to return to clients
+const publicUserColumns = {
+  id: users.id,
+  username: users.username,
+  email: users.email,
+  role: users.role,
+  isActive: users.isActive,
+  createdAt: users.createdAt,
+};
+
+type UserRow = typeof users.$inferSelect;
+
+const toPublicUser = ({ password, ...user }: UserRow) => user;
+
+const findUser = async (id: number, executor: DbExecutor = db) => {
+  const [user] = await executor
+    .select()
+    .from(users)
+    .where(eq(users.id, id))
+    .limit(1);
+
+  return user;
+};
+
+const findPublicUser = async (id: number) => {
+  const [user] = await db
+    .select(publicUserColumns)
+    .from(users)
+    .where(eq(users.id, id))
+    .limit(1);
+
+  return user;
+};
+
+// Issues an access token together with a refresh token, creating one if none is given
+const createSession = async (
+  user: UserRow,
+  existingRefreshToken?: Awaited<ReturnType<typeof issueRefreshToken>>
+) => {
+  const refreshToken = existingRefreshToken ?? (await issueRefreshToken(user.id));
+
+  return {
+    token: generateToken(user.id, user.username, user.role),
+    refreshToken: refreshToken.token,
+    refreshTokenExpiresAt: refreshToken.expiresAt,
+    user: {
+      id: user.id,
+      username: user.username,
+      role: user.role,
+    },
+  };
+};
+
+const isUsernameTaken = async (username: string, exceptId?: number) => {
+  const [existing] = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(eq(users.username, username))
+    .limit(1);
+
+  return existing !== undefined && existing.id !== exceptId;
+};
+
+const LOCKED_OUT_ERROR = "Too many failed login attempts, please try again later";
 
 router.post(
   "/login",
+  describeRoute({
+    tags: ["Auth"],
+    summary: "Sign in with username and password",
+    responses: { 200: json(sessionResponseSchema), ...errors(400, 401, 429) },
+  }),
+  loginIpRateLimit,
+  validateRequest({ body: loginSchema }),
   tryCatch(async (req: Request, res: Response): Promise<void> => {
-    const { username, password } = authSchema.parse(req.body);
+    const { username, password } = req.body as z.infer<typeof loginSchema>;
+
+    // Checked before bcrypt so locked accounts cost nothing to reject
+    const lockedUntil = await getLoginLockout(username);
+    if (lockedUntil) {
+      throw new TooManyRequestsError(LOCKED_OUT_ERROR, lockedUntil);
+    }
 
     const existingUser = await db
       .select()
@@ -67,10 +141,8 @@ router.post(
       .limit(1);
 
     if (existingUser.length === 0) {
-       res.status(StatusCodes.UNAUTHORIZED).json({
-        error: "Invalid credentials",
-      });
-      return;
+      await recordFailedLogin(username);
+       throw new UnauthorizedError("Invalid credentials");
     }
 
     const validPassword = await bcrypt.compare(
@@ -79,22 +151,426 @@ router.post(
     );
 
     if (!validPassword) {
-      res.status(StatusCodes.UNAUTHORIZED).json({
-        error: "Invalid credentials",
+      const lockoutEnd = await recordFailedLogin(username);
+      if (lockoutEnd) {
+        throw new TooManyRequestsError(LOCKED_OUT_ERROR, lockoutEnd);
+      }
+
+      throw new UnauthorizedError("Invalid credentials");
+    }
+
+    await clearFailedLogins(username);
+
+    if (!existingUser[0].isActive) {
+      throw new ForbiddenError("Account is disabled");
+    }
+
+    res.status(StatusCodes.OK).json(await createSession(existingUser[0]));
+  })
+);
+
+router.post(
+  "/refresh",
+  describeRoute({
+    tags: ["Auth"],
+    summary: "Exchange a refresh token for a new session",
+    responses: { 200: json(sessionResponseSchema), ...errors(400, 401) },
+  }),
+  validateRequest({ body: refreshTokenSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const { refreshToken } = req.body as z.infer<typeof refreshTokenSchema>;
+
+    const rotated = await rotateRefreshToken(refreshToken);
+    if (!rotated) {
+      throw new UnauthorizedError("Invalid or expired refresh token");
+    }
+
+    res
+      .status(StatusCodes.OK)
+      .json(await createSession(rotated.user, rotated.refreshToken));
+  })
+);
+
+router.post(
+  "/logout",
+  describeRoute({
+    tags: ["Auth"],
+    summary: "Revoke a refresh token",
+    responses: { 200: json(SuccessResponse), ...errors(400) },
+  }),
+  validateRequest({ body: refreshTokenSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const { refreshToken } = req.body as z.infer<typeof refreshTokenSchema>;
+
+    await revokeRefreshToken(refreshToken);
+
+    res.status(StatusCodes.OK).json({
+      success: true,
+      message: "Logged out",
+    });
+  })
+);
+
+router.post(
+  "/logout-all",
+  describeRoute({
+    tags: ["Auth"],
+    summary: "Revoke every refresh token of the current user",
+    responses: { 200: json(SuccessResponse), ...errors(401) },
+  }),
+  authenticateToken,
+  tryCatch(async (req: Request, res: Response) => {
+    await revokeAllRefreshTokens(req.user!.userId);
+
+    res.status(StatusCodes.OK).json({
+      success: true,
+      message: "Logged out of all sessions",
+    });
+  })
+);
+
+router.get(
+  "/me",
+  describeRoute({
+    tags: ["Auth"],
+    summary: "Get the current user",
+    responses: { 200: json(User), ...errors(401) },
+  }),
+  authenticateToken,
+  tryCatch(async (req: Request, res: Response) => {
+    const user = await findPublicUser(req.user!.userId);
+
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    res.status(StatusCodes.OK).json(user);
+  })
+);
+
+router.put(
+  "/me/password",
+  describeRoute({
+    tags: ["Auth"],
+    summary: "Change the password of the current user",
+    responses: { 200: json(SuccessResponse), ...errors(400, 401) },
+  }),
+  authenticateToken,
+  validateRequest({ body: changePasswordSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const { currentPassword, newPassword } = req.body as z.infer<typeof changePasswordSchema>;
+
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, req.user!.userId))
+      .limit(1);
+
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+
+    const validPassword = await bcrypt.compare(currentPassword, user.password);
+    if (!validPassword) {
+      throw new BadRequestError("Current password is incorrect");
+    }
+
+    await db
+      .update(users)
+      .set({ password: await bcrypt.hash(newPassword, PASSWORD_SALT_ROUNDS) })
+      .where(eq(users.id, user.id));
+
+    await revokeAllRefreshTokens(user.id);
+
+    res.status(StatusCodes.OK).json({
+      success: true,
+      message: "Password changed",
+    });
+  })
+);
+
+router.get(
+  "/users",
+  describeRoute({
+    tags: ["Users"],
+    summary: "List users",
+    responses: { 200: json(z.array(User)), ...errors(401, 403) },
+  }),
+  authenticateToken,
+  authorize("admin"),
+  tryCatch(async (_, res: Response) => {
+    const allUsers = await db
+      .select(publicUserColumns)
+      .from(users)
+      .orderBy(asc(users.id));
+
+    res.status(StatusCodes.OK).json(allUsers);
+  })
+);
+
+router.post(
+  "/users",
+  describeRoute({
+    tags: ["Users"],
+    summary: "Create a user",
+    responses: { 201: json(User, "Created"), ...errors(400, 401, 403, 409) },
+  }),
+  authenticateToken,
+  authorize("admin"),
+  validateRequest({ body: createUserSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const { username, password, email, role } = req.body as z.infer<typeof createUserSchema>;
+
+    if (await isUsernameTaken(username)) {
+      throw new ConflictError("Username already exists");
+    }
+
+    const passwordHash = await bcrypt.hash(password, PASSWORD_SALT_ROUNDS);
+
+    const newUser = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(users)
+        .values({ username, password: passwordHash, email, role })
+        .returning();
+
+      await recordAudit(tx, req, {
+        entityType: "user",
+        entityId: created.id,
+        action: "create",
+        before: null,
+        after: created,
       });
-      return;
+
+      return toPublicUser(created);
+    });
+
+    notify([newUser.email], "userCreated", {
+      username: newUser.username,
+      role: newUser.role,
+    });
+
+    res.status(StatusCodes.CREATED).json(newUser);
+  })
+);
+
+router.put(
+  "/users/:id",
+  describeRoute({
+    tags: ["Users"],
+    summary: "Update a user",
+    responses: { 200: json(User), ...errors(400, 401, 403, 404, 409) },
+  }),
+  authenticateToken,
+  authorize("admin"),
+  validateRequest({ params: idParamsSchema, body: updateUserSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    const updateData = req.body as z.infer<typeof updateUserSchema>;
+
+    if (!(await findPublicUser(id))) {
+      throw new NotFoundError("User not found");
+    }
+
+    // Keep admins from locking themselves out
+    if (
+      id === req.user!.userId &&
+      ((updateData.role && updateData.role !== "admin") || updateData.isActive === false)
+    ) {
+      throw new BadRequestError("You cannot demote or disable your own account");
+    }
+
+    if (updateData.username && (await isUsernameTaken(updateData.username, id))) {
+      throw new ConflictError("Username already exists");
     }
 
-    const token = generateToken(existingUser[0].id, existingUser[0].username);
+    if (Object.keys(updateData).length === 0) {
+      throw new BadRequestError("Nothing to update");
+    }
+
+    const updatedUser = await db.transaction(async (tx) => {
+      const before = await findUser(id, tx);
+      const [updated] = await tx
+        .update(users)
+        .set(updateData)
+        .where(eq(users.id, id))
+        .returning();
+
+      await recordAudit(tx, req, {
+        entityType: "user",
+        entityId: id,
+        action: "update",
+        before,
+        after: updated,
+      });
+
+      return toPublicUser(updated);
+    });
+
+    if (updateData.isActive === false) {
+      await revokeAllRefreshTokens(id);
+    }
+
+    res.status(StatusCodes.OK).json(updatedUser);
+  })
+);
+
+const setUserActive = (isActive: boolean) =>
+  tryCatch(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+
+    if (!isActive && id === req.user!.userId) {
+      throw new BadRequestError("You cannot disable your own account");
+    }
+
+    const updatedUser = await db.transaction(async (tx) => {
+      const before = await findUser(id, tx);
+      if (!before) {
+        throw new NotFoundError("User not found");
+      }
+
+      const [updated] = await tx
+        .update(users)
+        .set({ isActive })
+        .where(eq(users.id, id))
+        .returning();
+
+      await recordAudit(tx, req, {
+        entityType: "user",
+        entityId: id,
+        action: "update",
+        before,
+        after: updated,
+      });
+
+      return toPublicUser(updated);
+    });
+
+    if (!isActive) {
+      await revokeAllRefreshTokens(id);
+    }
+
+    res.status(StatusCodes.OK).json(updatedUser);
+  });
+
+router.post(
+  "/users/:id/disable",
+  describeRoute({
+    tags: ["Users"],
+    summary: "Disable a user",
+    responses: { 200: json(User), ...errors(400, 401, 403, 404) },
+  }),
+  authenticateToken,
+  authorize("admin"),
+  validateRequest({ params: idParamsSchema }),
+  setUserActive(false)
+);
+
+router.post(
+  "/users/:id/enable",
+  describeRoute({
+    tags: ["Users"],
+    summary: "Enable a user",
+    responses: { 200: json(User), ...errors(400, 401, 403, 404) },
+  }),
+  authenticateToken,
+  authorize("admin"),
+  validateRequest({ params: idParamsSchema }),
+  setUserActive(true)
+);
+
+router.post(
+  "/users/:id/reset-password",
+  describeRoute({
+    tags: ["Users"],
+    summary: "Set a new password for a user",
+    responses: { 200: json(SuccessResponse), ...errors(400, 401, 403, 404) },
+  }),
+  authenticateToken,
+  authorize("admin"),
+  validateRequest({ params: idParamsSchema, body: resetPasswordSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    const { password } = req.body as z.infer<typeof resetPasswordSchema>;
+
+    const passwordHash = await bcrypt.hash(password, PASSWORD_SALT_ROUNDS);
+
+    const updatedUser = await db.transaction(async (tx) => {
+      const before = await findUser(id, tx);
+      if (!before) {
+        throw new NotFoundError("User not found");
+      }
+
+      const [updated] = await tx
+        .update(users)
+        .set({ password: passwordHash })
+        .where(eq(users.id, id))
+        .returning();
+
+      await recordAudit(tx, req, {
+        entityType: "user",
+        entityId: id,
+        action: "update",
+        before,
+        after: updated,
+      });
+
+      return updated;
+    });
+
+    await revokeAllRefreshTokens(id);
+
+    notify([updatedUser.email], "passwordReset", { username: updatedUser.username });
+
+    res.status(StatusCodes.OK).json({
+      success: true,
+      message: "Password reset",
+    });
+  })
+);
+
+router.delete(
+  "/users/:id",
+  describeRoute({
+    tags: ["Users"],
+    summary: "Delete a user",
+    responses: { 200: json(SuccessResponse), ...errors(400, 401, 403, 404) },
+  }),
+  authenticateToken,
+  authorize("admin"),
+  validateRequest({ params: idParamsSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+
+    if (id === req.user!.userId) {
+      throw new BadRequestError("You cannot delete your own account");
+    }
+
+    const deletedUser = await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(users)
+        .where(eq(users.id, id))
+        .returning();
+
+      if (!deleted) {
+        throw new NotFoundError("User not found");
+      }
+
+      await recordAudit(tx, req, {
+        entityType: "user",
+        entityId: id,
+        action: "delete",
+        before: deleted,
+        after: null,
+      });
+
+      return deleted;
+    });
 
     res.status(StatusCodes.OK).json({
-      token,
-      user: {
-        id: existingUser[0].id,
-        username: existingUser[0].username,
-      },
+      success: true,
+      message: `Successfully deleted '${deletedUser.username}'`
     });
   })
 );
 
-export { router as authRouter }; 
\ No newline at end of file
+export { router as authRouter };
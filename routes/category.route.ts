@@ -1,74 +1,99 @@
 import { Router } from "express";
 import { StatusCodes } from "http-status-codes";
 import { z } from "zod";
-import { eq } from "drizzle-orm";
-import multer from "multer";
-import path from "path";
-import fs from "fs";
-import { v4 as uuidv4 } from "uuid";
+import { and, desc, eq, inArray, isNotNull, isNull, sql } from "drizzle-orm";
 import { type Request, type Response } from "express";
 import { db } from "../db";
-import { category } from "../db/schema";
+import { category, productCategory } from "../db/schema";
 import { tryCatch } from "../errorHandlers";
+import {
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+} from "../errors";
 import { validateRequest } from "../middlewares/validate.middleware";
 import { product } from "../db/schema";
-import { authenticateToken } from "../middlewares/auth.middleware";
-
-// Constants
-const UPLOAD_DIR = path.join(process.cwd(), "uploads");
-const IMAGE_URL_PREFIX = "/uploads/categories";
-
-// Ensure upload directory exists
-if (!fs.existsSync(UPLOAD_DIR)) {
-  fs.mkdirSync(UPLOAD_DIR, { recursive: true });
-}
-
-// Configure multer storage
-const storage = multer.diskStorage({
-  destination: (_, __, cb) => {
-    const categoryUploadsDir = path.join(UPLOAD_DIR, "categories");
-    if (!fs.existsSync(categoryUploadsDir)) {
-      fs.mkdirSync(categoryUploadsDir, { recursive: true });
-    }
-    cb(null, categoryUploadsDir);
-  },
-  filename: (_, file, cb) => {
-    const uniqueFilename = `${uuidv4()}${path.extname(file.originalname)}`;
-    cb(null, uniqueFilename);
-  },
+import {
+  authenticateToken,
+  authorize,
+  optionalAuthentication,
+} from "../middlewares/auth.middleware";
+import { uploadImages } from "../middlewares/image.middleware";
+import { parseMultipartFields } from "../middlewares/multipart.middleware";
+import {
+  getImageFiles,
+} from "../services/image-processing.service";
+import { deleteStoredFiles } from "../services/storage";
+import { isPublished, presentProducts } from "../services/product.service";
+import { localizeCategories } from "../services/translation.service";
+import { presentCategories, presentCategory } from "../services/category.service";
+import { mergeSpecTemplates } from "../services/spec-template.service";
+import { recordAudit } from "../services/audit.service";
+import {
+  assertValidParent,
+  buildCategoryTree,
+  getBreadcrumbs,
+  getDescendantIds,
+  getNextPosition,
+  moveCategory,
+  reorderCategories,
+} from "../services/category-tree.service";
+import {
+  findBySlug,
+  recordSlugChange,
+  resolveSlugForSave,
+} from "../services/slug.service";
+import { idParamsSchema } from "../schemas/common.schema";
+import {
+  categoryCreateSchema,
+  categoryDeleteQuerySchema,
+  categoryMoveSchema,
+  categoryOrderSchema,
+  categoryProductsQuerySchema,
+  categoryUpdateSchema,
+  mergedSpecTemplateResponseSchema,
+  specTemplateQuerySchema,
+  specTemplateResponseSchema,
+  type CategoryDeleteQuery,
+} from "../schemas/category.schema";
+import {
+  Category,
+  CategoryDetail,
+  CategoryTreeNode,
+  Product,
+  SuccessResponse,
+  binary,
+  describeRoute,
+  errors,
+  json,
+  slugRedirect,
+} from "../services/openapi.service";
+
+// Upload handling
+const uploadCategoryImage = uploadImages({
+  field: "image",
+  maxCount: 1,
+  folder: "categories",
 });
 
-const upload = multer({
-  storage,
-  limits: { fileSize: 50 * 1024 * 1024 }, // 50MB limit
-  fileFilter: (_, file, cb) => {
-    const allowedTypes = /jpeg|jpg|png|webp/;
-    const extname = allowedTypes.test(
-      path.extname(file.originalname).toLowerCase()
-    );
-    const mimetype = allowedTypes.test(file.mimetype);
-
-    if (extname && mimetype) {
-      return cb(null, true);
-    }
-    cb(new Error("Only image files (jpeg, jpg, png, webp) are allowed"));
-  },
-});
+const parseCategoryMultipart = parseMultipartFields("specTemplate", "parentId");
 
-// Schema Definitions
-const categoryBaseSchema = {
-  name: z.string().min(3, "Name must be at least 3 characters").max(100),
-  description: z.string().min(10, "Description must be at least 10 characters"),
-};
+const categoryMultipartSchema = (schema: typeof categoryCreateSchema | typeof categoryUpdateSchema) =>
+  schema.extend({
+    specTemplate: z.string().optional().openapi({ description: "The spec template as a JSON string" }),
+    image: binary.optional(),
+  });
 
-export const categorySchema = z.object({
-  ...categoryBaseSchema,
-  imageUrl: z.string().url("Invalid image URL").optional(),
-});
+// Trashed categories are treated as missing everywhere but in the trash endpoints
+const findActiveCategory = async (id: number) => {
+  const [found] = await db
+    .select()
+    .from(category)
+    .where(and(eq(category.id, id), isNull(category.deletedAt)))
+    .limit(1);
 
-export const categoryIdSchema = z.object({
-  id: z.string().regex(/^\d+$/).transform(Number),
-});
+  return found;
+};
 
 // Router Setup
 const router = Router();
@@ -76,17 +101,30 @@ const router = Router();
 // Create a new category
 router.post(
   "/",
+  describeRoute({
+    tags: ["Categories"],
+    summary: "Create a category",
+    request: {
+      body: {
+        content: {
+          "application/json": { schema: categoryCreateSchema },
+          "multipart/form-data": { schema: categoryMultipartSchema(categoryCreateSchema) },
+        },
+      },
+    },
+    responses: { 201: json(Category, "Created"), ...errors(400, 401, 403, 404, 409) },
+  }),
   authenticateToken,
-  upload.single("image"),
+  authorize("admin", "editor"),
+  uploadCategoryImage,
+  parseCategoryMultipart,
+  validateRequest({ body: categoryCreateSchema }),
   tryCatch(async (req: Request, res: Response): Promise<void> => {
-    const { name, description } = req.body;
+    const { name, description, specTemplate = [], slug, parentId = null } =
+      req.body as z.infer<typeof categoryCreateSchema>;
+    const [uploadedImage] = req.processedImages ?? [];
 
-    if (!name || !description) {
-      res.status(StatusCodes.BAD_REQUEST).json({
-        error: "Name and description are required",
-      });
-      return;
-    }
+    await assertValidParent(db, undefined, parentId);
 
     // Check if category already exists
     const existingCategory = await db
@@ -96,224 +134,586 @@ router.post(
       .limit(1);
 
     if (existingCategory.length > 0) {
-      res
-        .status(StatusCodes.CONFLICT)
-        .json({ error: "Category already exists" });
-      return;
-    }
-
-    // Process image if uploaded
-    let imageUrl = null;
-    if (req.file) {
-      imageUrl = `${IMAGE_URL_PREFIX}/${req.file.filename}`;
+      throw new ConflictError(
+        existingCategory[0].deletedAt
+          ? "A category with this name is in the trash, restore it instead"
+          : "Category already exists"
+      );
     }
 
     // Create new category
-    const [newCategory] = await db
-      .insert(category)
-      .values({
-        name,
-        description,
-        imageUrl,
-      })
-      .returning();
-
-    res.status(StatusCodes.CREATED).json(newCategory);
+    const newCategory = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(category)
+        .values({
+          name,
+          slug: await resolveSlugForSave(tx, "category", { name, slug }),
+          description,
+          imageUrl: uploadedImage?.url ?? null,
+          imageVariants: uploadedImage?.variants ?? null,
+          specTemplate,
+          parentId,
+          position: await getNextPosition(tx, parentId),
+        })
+        .returning();
+
+      await recordAudit(tx, req, {
+        entityType: "category",
+        entityId: created.id,
+        action: "create",
+        before: null,
+        after: created,
+      });
+
+      return created;
+    });
+
+    res.status(StatusCodes.CREATED).json(await presentCategory(newCategory));
   })
 );
 
 // Get all categories
 router.get(
   "/",
+  describeRoute({
+    tags: ["Categories"],
+    summary: "List categories",
+    responses: { 200: json(z.array(Category)) },
+  }),
+  tryCatch(async (req: Request, res: Response) => {
+    const categories = await db
+      .select()
+      .from(category)
+      .where(isNull(category.deletedAt));
+    res.status(StatusCodes.OK).json(await localizeCategories(await presentCategories(categories), req.locales));
+  })
+);
+
+// Get the category hierarchy, siblings in their order
+router.get(
+  "/tree",
+  describeRoute({
+    tags: ["Categories"],
+    summary: "Get the category hierarchy",
+    responses: { 200: json({ type: "array", items: CategoryTreeNode.ref }) },
+  }),
+  tryCatch(async (req: Request, res: Response) => {
+    const categories = await db
+      .select()
+      .from(category)
+      .where(isNull(category.deletedAt));
+
+    const localized = await localizeCategories(await presentCategories(categories), req.locales);
+    res.status(StatusCodes.OK).json(buildCategoryTree(localized));
+  })
+);
+
+// Set the order of the subcategories of a parent, or of the root categories
+router.put(
+  "/order",
+  describeRoute({
+    tags: ["Categories"],
+    summary: "Set the order of the subcategories of a parent",
+    responses: { 200: json(SuccessResponse), ...errors(400, 401, 403, 404) },
+  }),
+  authenticateToken,
+  authorize("admin", "editor"),
+  validateRequest({ body: categoryOrderSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const { parentId, categoryIds } = req.body as z.infer<typeof categoryOrderSchema>;
+
+    if (parentId !== null && !(await findActiveCategory(parentId))) {
+      throw new NotFoundError("Parent category not found");
+    }
+
+    await db.transaction(async (tx) => {
+      const before = await tx.select().from(category).where(inArray(category.id, categoryIds));
+      await reorderCategories(tx, parentId, categoryIds);
+      const after = await tx.select().from(category).where(inArray(category.id, categoryIds));
+
+      for (const updated of after) {
+        await recordAudit(tx, req, {
+          entityType: "category",
+          entityId: updated.id,
+          action: "update",
+          before: before.find((row) => row.id === updated.id) ?? null,
+          after: updated,
+        });
+      }
+    });
+
+    res.status(StatusCodes.OK).json({
+      success: true,
+      message: "Category order updated"
+    });
+  })
+);
+
+// Get trashed categories, most recently deleted first
+router.get(
+  "/trash",
+  describeRoute({
+    tags: ["Categories"],
+    summary: "List trashed categories",
+    responses: { 200: json(z.array(Category)), ...errors(401, 403) },
+  }),
+  authenticateToken,
+  authorize("admin"),
   tryCatch(async (_, res: Response) => {
-    const categories = await db.select().from(category);
-    res.status(StatusCodes.OK).json(categories);
+    const categories = await db
+      .select()
+      .from(category)
+      .where(isNotNull(category.deletedAt))
+      .orderBy(desc(category.deletedAt), desc(category.id));
+    res.status(StatusCodes.OK).json(await presentCategories(categories));
   })
 );
 
-// Get category by ID
+// Get a category by slug, old slugs redirect to the current one
 router.get(
-  "/:id",
+  "/slug/:slug",
+  describeRoute({
+    tags: ["Categories"],
+    summary: "Get a category by slug",
+    responses: { 200: json(CategoryDetail), ...slugRedirect, ...errors(404) },
+  }),
   tryCatch(async (req: Request, res: Response) => {
-    const id = parseInt(req.params.id);
-    console.log(req.params.id);
-    if (isNaN(id)) {
-      res.status(StatusCodes.BAD_REQUEST).json({
-        error: "Invalid category ID format",
-      });
+    const match = await findBySlug("category", req.params.slug);
+    const foundCategory = match ? await findActiveCategory(match.id) : undefined;
+
+    if (!foundCategory) {
+      throw new NotFoundError("Category not found");
+    }
+
+    if (match!.redirect && foundCategory.slug) {
+      // Keep ?lang= and other query parameters
+      const search = req.originalUrl.includes("?") ? req.originalUrl.slice(req.originalUrl.indexOf("?")) : "";
+      res.redirect(StatusCodes.MOVED_PERMANENTLY, `${req.baseUrl}/slug/${foundCategory.slug}${search}`);
       return;
     }
 
-    const foundCategory = await db
-      .select()
+    const [localizedCategory] = await localizeCategories([await presentCategory(foundCategory)], req.locales);
+    res.status(StatusCodes.OK).json({
+      ...localizedCategory,
+      breadcrumbs: await getBreadcrumbs(foundCategory.id, req.locales),
+    });
+  })
+);
+
+// Get the merged specification template of several categories
+router.get(
+  "/spec-template",
+  describeRoute({
+    tags: ["Categories"],
+    summary: "Merge the spec templates of several categories",
+    responses: { 200: json(mergedSpecTemplateResponseSchema), ...errors(400) },
+  }),
+  validateRequest({ query: specTemplateQuerySchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const { ids } = req.query as unknown as z.infer<typeof specTemplateQuerySchema>;
+
+    const rows = await db
+      .select({ id: category.id, specTemplate: category.specTemplate })
+      .from(category)
+      .where(and(inArray(category.id, ids), isNull(category.deletedAt)));
+
+    const missingIds = ids.filter((id) => !rows.some((row) => row.id === id));
+    if (missingIds.length > 0) {
+      throw new NotFoundError(`Categories not found: ${missingIds.join(", ")}`);
+    }
+
+    const fields = mergeSpecTemplates(
+      ids.map((id) => rows.find((row) => row.id === id)!.specTemplate)
+    );
+
+    res.status(StatusCodes.OK).json({ categoryIds: ids, fields });
+  })
+);
+
+// Get the specification template of a category
+router.get(
+  "/:id/spec-template",
+  describeRoute({
+    tags: ["Categories"],
+    summary: "Get the spec template of a category",
+    responses: { 200: json(specTemplateResponseSchema), ...errors(400, 404) },
+  }),
+  validateRequest({ params: idParamsSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+
+    const [foundCategory] = await db
+      .select({ id: category.id, specTemplate: category.specTemplate })
       .from(category)
-      .where(eq(category.id, id))
+      .where(and(eq(category.id, id), isNull(category.deletedAt)))
       .limit(1);
 
-    if (foundCategory.length === 0) {
-      res.status(StatusCodes.NOT_FOUND).json({
-        error: "Category not found",
-      });
-      return;
+    if (!foundCategory) {
+      throw new NotFoundError("Category not found");
     }
 
-    res.status(StatusCodes.OK).json(foundCategory[0]);
+    res.status(StatusCodes.OK).json({
+      categoryId: foundCategory.id,
+      fields: foundCategory.specTemplate,
+    });
+  })
+);
+
+// Get category by ID
+router.get(
+  "/:id",
+  describeRoute({
+    tags: ["Categories"],
+    summary: "Get a category with its breadcrumbs",
+    responses: { 200: json(CategoryDetail), ...errors(400, 404) },
+  }),
+  validateRequest({ params: idParamsSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+
+    const foundCategory = await findActiveCategory(id);
+
+    if (!foundCategory) {
+      throw new NotFoundError("Category not found");
+    }
+
+    const [localizedCategory] = await localizeCategories([await presentCategory(foundCategory)], req.locales);
+    res.status(StatusCodes.OK).json({
+      ...localizedCategory,
+      breadcrumbs: await getBreadcrumbs(id, req.locales),
+    });
   })
 );
 
 // Update category
 router.put(
   "/:id",
+  describeRoute({
+    tags: ["Categories"],
+    summary: "Update a category",
+    request: {
+      body: {
+        content: {
+          "application/json": { schema: categoryUpdateSchema },
+          "multipart/form-data": { schema: categoryMultipartSchema(categoryUpdateSchema) },
+        },
+      },
+    },
+    responses: { 200: json(Category), ...errors(400, 401, 403, 404, 409) },
+  }),
   authenticateToken,
-  upload.single("image"),
+  authorize("admin", "editor"),
+  uploadCategoryImage,
+  parseCategoryMultipart,
+  validateRequest({ params: idParamsSchema, body: categoryUpdateSchema }),
   tryCatch(async (req: Request, res: Response) => {
-    const id = parseInt(req.params.id);
-    const { name, description } = req.body;
-
-    if (isNaN(id)) {
-      res.status(StatusCodes.BAD_REQUEST).json({
-        error: "Invalid category ID format",
-      });
-      return;
-    }
+    const id = Number(req.params.id);
+    const { name, description, specTemplate, slug: slugOverride } =
+      req.body as z.infer<typeof categoryUpdateSchema>;
 
     // Check if category exists
-    const existingCategory = await db
-      .select()
-      .from(category)
-      .where(eq(category.id, id))
-      .limit(1);
+    const existingCategory = await findActiveCategory(id);
 
-    if (existingCategory.length === 0) {
-      res.status(StatusCodes.NOT_FOUND).json({
-        error: "Category not found Bole?",
-      });
-      return;
+    if (!existingCategory) {
+      throw new NotFoundError("Category not found Bole?");
     }
 
     // Handle image update if present
-    let updateData: Partial<(typeof existingCategory)[0]> = {};
-
-    if (name) updateData.name = name;
-    if (description) updateData.description = description;
-
-    if (req.file) {
-      // Delete old image if exists
-      if (existingCategory[0].imageUrl) {
-        try {
-          const oldImagePath = path.join(
-            process.cwd(),
-            existingCategory[0].imageUrl.replace(/^\//, "")
-          );
-          if (fs.existsSync(oldImagePath)) {
-            fs.unlinkSync(oldImagePath);
-          }
-        } catch (error) {
-          console.error("Error deleting old image:", error);
-        }
-      }
+    let updateData: Partial<typeof existingCategory> = {};
+
+    if (name !== undefined) updateData.name = name;
+    if (description !== undefined) updateData.description = description;
+    if (specTemplate !== undefined) updateData.specTemplate = specTemplate;
 
-      updateData.imageUrl = `${IMAGE_URL_PREFIX}/${req.file.filename}`;
+    const [uploadedImage] = req.processedImages ?? [];
+    if (uploadedImage) {
+      updateData.imageUrl = uploadedImage.url;
+      updateData.imageVariants = uploadedImage.variants;
     }
 
     // Update category
-    const [updatedCategory] = await db
-      .update(category)
-      .set(updateData)
-      .where(eq(category.id, id))
-      .returning();
+    const updatedCategory = await db.transaction(async (tx) => {
+      // Renames get a new slug, the old one keeps redirecting
+      if (slugOverride !== undefined || (updateData.name && updateData.name !== existingCategory.name)) {
+        updateData.slug = await resolveSlugForSave(tx, "category", {
+          name: updateData.name ?? existingCategory.name,
+          slug: slugOverride,
+          id,
+        });
+        await recordSlugChange(tx, "category", id, existingCategory.slug, updateData.slug);
+      }
 
-    res.status(StatusCodes.OK).json(updatedCategory);
+      const [updated] = await tx
+        .update(category)
+        .set(updateData)
+        .where(eq(category.id, id))
+        .returning();
+
+      await recordAudit(tx, req, {
+        entityType: "category",
+        entityId: id,
+        action: "update",
+        before: existingCategory,
+        after: updated,
+      });
+
+      return updated;
+    });
+
+    // The old image variants go once the category no longer points at them
+    if (uploadedImage) {
+      await deleteStoredFiles(
+        getImageFiles({
+          url: existingCategory.imageUrl,
+          variants: existingCategory.imageVariants,
+        })
+      );
+    }
+
+    res.status(StatusCodes.OK).json(await presentCategory(updatedCategory));
   })
 );
 
-// Delete category
+// Move a category to the trash, it is purged after the retention period
 router.delete(
   "/:id",
+  describeRoute({
+    tags: ["Categories"],
+    summary: "Move a category to the trash",
+    responses: { 200: json(SuccessResponse), ...errors(400, 401, 403, 404, 409) },
+  }),
   authenticateToken,
-  validateRequest({ params: categoryIdSchema }),
+  authorize("admin"),
+  validateRequest({ params: idParamsSchema, query: categoryDeleteQuerySchema }),
   tryCatch(async (req: Request, res: Response) => {
     const id = parseInt(req.params.id);
+    const { strategy, reassignTo } = req.query as unknown as CategoryDeleteQuery;
 
-    const foundCategory = await db
-      .select()
+    const foundCategory = await findActiveCategory(id);
+
+    if (!foundCategory) {
+      throw new NotFoundError("Category not found");
+    }
+
+    const [{ subcategories }] = await db
+      .select({ subcategories: sql<number>`count(*)::int` })
       .from(category)
-      .where(eq(category.id, id))
-      .limit(1);
+      .where(and(eq(category.parentId, id), isNull(category.deletedAt)));
 
-    if (foundCategory.length === 0) {
-      res.status(StatusCodes.NOT_FOUND).json({
-        error: "Category not found",
-      });
-      return;
+    if (subcategories > 0) {
+      throw new ConflictError(
+        `Category has ${subcategories} subcategories, move or delete them first`,
+        "CATEGORY_HAS_CHILDREN"
+      );
     }
 
-    if (foundCategory[0].imageUrl) {
-      try {
-        const imagePath = path.join(
-          process.cwd(),
-          foundCategory[0].imageUrl.replace(/^\//, '')
-        );
-        if (fs.existsSync(imagePath)) {
-          fs.unlinkSync(imagePath);
-        }
-      } catch (error) {
-        console.error("Error deleting category image:", error);
+    const [{ linkedProducts }] = await db
+      .select({ linkedProducts: sql<number>`count(*)::int` })
+      .from(productCategory)
+      .innerJoin(product, eq(productCategory.productId, product.id))
+      .where(and(eq(productCategory.categoryId, id), isNull(product.deletedAt)));
+
+    if (strategy === "block" && linkedProducts > 0) {
+      throw new ConflictError(`Category is assigned to ${linkedProducts} product(s). Use strategy=detach or strategy=reassign to delete it`);
+    }
+
+    if (strategy === "reassign") {
+      if (reassignTo === undefined || reassignTo === id) {
+        throw new BadRequestError("reassignTo must reference another category");
+      }
+
+      if (!(await findActiveCategory(reassignTo))) {
+        throw new NotFoundError("Target category not found");
       }
     }
 
-    await db.delete(category).where(eq(category.id, id));
+    await db.transaction(async (tx) => {
+      if (strategy === "reassign" && reassignTo !== undefined) {
+        const links = await tx
+          .select({ productId: productCategory.productId })
+          .from(productCategory)
+          .where(eq(productCategory.categoryId, id));
+
+        if (links.length > 0) {
+          await tx
+            .insert(productCategory)
+            .values(links.map(({ productId }) => ({ productId, categoryId: reassignTo })))
+            .onConflictDoNothing();
+        }
+      }
+
+      // Links to the category stay in place but are hidden until it is restored or purged
+      const [trashed] = await tx
+        .update(category)
+        .set({ deletedAt: new Date() })
+        .where(eq(category.id, id))
+        .returning();
+
+      await recordAudit(tx, req, {
+        entityType: "category",
+        entityId: id,
+        action: "delete",
+        before: foundCategory,
+        after: trashed,
+      });
+    });
 
     res.status(StatusCodes.OK).json({
       success: true,
-      message: `Successfully deleted '${foundCategory[0].name}'`
+      message: `Moved '${foundCategory.name}' to the trash`,
+      affectedProducts: linkedProducts,
+    });
+  })
+);
+
+// Restore a category from the trash together with its product links
+router.post(
+  "/:id/restore",
+  describeRoute({
+    tags: ["Categories"],
+    summary: "Restore a category from the trash",
+    responses: { 200: json(Category), ...errors(400, 401, 403, 404, 409) },
+  }),
+  authenticateToken,
+  authorize("admin"),
+  validateRequest({ params: idParamsSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+
+    const restoredCategory = await db.transaction(async (tx) => {
+      const [before] = await tx
+        .select()
+        .from(category)
+        .where(and(eq(category.id, id), isNotNull(category.deletedAt)))
+        .limit(1);
+
+      if (!before) {
+        throw new NotFoundError("Category not found in the trash");
+      }
+
+      // A parent that was deleted or purged meanwhile leaves the category at the root level
+      const parent = before.parentId !== null ? await findActiveCategory(before.parentId) : undefined;
+      const parentId = parent ? parent.id : null;
+
+      const [restored] = await tx
+        .update(category)
+        .set({ deletedAt: null, parentId, position: await getNextPosition(tx, parentId) })
+        .where(eq(category.id, id))
+        .returning();
+
+      await recordAudit(tx, req, {
+        entityType: "category",
+        entityId: id,
+        action: "restore",
+        before,
+        after: restored,
+      });
+
+      return restored;
     });
+
+    res.status(StatusCodes.OK).json(await presentCategory(restoredCategory));
   })
 );
 
+// Move a category below another parent or to the root level
+router.post(
+  "/:id/move",
+  describeRoute({
+    tags: ["Categories"],
+    summary: "Move a category under another parent",
+    responses: { 200: json(Category), ...errors(400, 401, 403, 404) },
+  }),
+  authenticateToken,
+  authorize("admin", "editor"),
+  validateRequest({ params: idParamsSchema, body: categoryMoveSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    const { parentId, position } = req.body as z.infer<typeof categoryMoveSchema>;
+
+    const foundCategory = await findActiveCategory(id);
+
+    if (!foundCategory) {
+      throw new NotFoundError("Category not found");
+    }
+
+    const movedCategory = await db.transaction(async (tx) => {
+      await moveCategory(tx, id, parentId, position);
+
+      const [moved] = await tx
+        .select()
+        .from(category)
+        .where(eq(category.id, id))
+        .limit(1);
+
+      await recordAudit(tx, req, {
+        entityType: "category",
+        entityId: id,
+        action: "update",
+        before: foundCategory,
+        after: moved,
+      });
+
+      return moved;
+    });
+
+    res.status(StatusCodes.OK).json(await presentCategory(movedCategory));
+  })
+);
 
+// Products of a category, with includeDescendants=true of its whole subtree
 router.get(
   "/:id/products",
-  validateRequest({ params: categoryIdSchema }),
+  describeRoute({
+    tags: ["Categories"],
+    summary: "List the products of a category",
+    responses: {
+      200: json(z.object({ category: Category, products: z.array(Product) })),
+      ...errors(400, 404),
+    },
+  }),
+  optionalAuthentication,
+  validateRequest({ params: idParamsSchema, query: categoryProductsQuerySchema }),
   tryCatch(async (req: Request, res: Response) => {
     const categoryId = parseInt(req.params.id);
+    const { currency, includeDescendants } = req.query as unknown as z.infer<typeof categoryProductsQuerySchema>;
 
-    const categoryExists = await db
-      .select()
-      .from(category)
-      .where(eq(category.id, categoryId))
-      .limit(1);
+    const categoryExists = await findActiveCategory(categoryId);
 
-    if (categoryExists.length === 0) {
-      res.status(StatusCodes.NOT_FOUND).json({
-        error: "Category not found",
-      });
-      return;
+    if (!categoryExists) {
+      throw new NotFoundError("Category not found");
     }
 
-    const allProducts = await db.select().from(product);
-    const categories = await db.select().from(category);
+    const categoryIds = includeDescendants
+      ? [categoryId, ...(await getDescendantIds(categoryId))]
+      : [categoryId];
 
-    const productsInCategory = allProducts.filter(prod => {
-      const machineData = prod.machineData as { categories?: number[] } || {};
-      return machineData.categories?.includes(categoryId);
-    });
-
-    const productsWithCategories = productsInCategory.map(prod => {
-      const machineData = prod.machineData as { categories?: number[] } || {};
-      const productCategories = categories.filter(cat => 
-        machineData.categories?.includes(cat.id)
-      );
-      
-      return {
-        ...prod,
-        categories: productCategories
-      };
-    });
+    // A product in several categories of the subtree is listed once
+    const productsInCategory = await db
+      .select()
+      .from(product)
+      .where(
+        and(
+          inArray(
+            product.id,
+            db
+              .select({ productId: productCategory.productId })
+              .from(productCategory)
+              .where(inArray(productCategory.categoryId, categoryIds))
+          ),
+          isNull(product.deletedAt),
+          req.user ? undefined : isPublished()
+        )
+      )
+      .orderBy(product.id);
+
+    const products = await presentProducts(productsInCategory, { locales: req.locales, currency });
+
+    const [localizedCategory] = await localizeCategories([await presentCategory(categoryExists)], req.locales);
 
     res.status(StatusCodes.OK).json({
-      category: categoryExists[0],
-      products: productsWithCategories
+      category: localizedCategory,
+      products
     });
   })
 );
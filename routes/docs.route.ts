@@ -0,0 +1,20 @@
+import { Router } from "express";
+import { StatusCodes } from "http-status-codes";
+import swaggerUi from "swagger-ui-express";
+import { type Request, type Response } from "express";
+import { getOpenApiDocument } from "../services/openapi.service";
+
+const router = Router();
+
+// Clients are generated from this document
+router.get("/openapi.json", (_: Request, res: Response) => {
+  res.status(StatusCodes.OK).json(getOpenApiDocument());
+});
+
+router.use(
+  "/docs",
+  swaggerUi.serve,
+  swaggerUi.setup(undefined, { swaggerOptions: { url: "/openapi.json" } })
+);
+
+export { router as docsRouter };
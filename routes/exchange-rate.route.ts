@@ -0,0 +1,115 @@
+import { Router } from "express";
+import { StatusCodes } from "http-status-codes";
+import { z } from "zod";
+import { and, asc, count, eq, isNull } from "drizzle-orm";
+import { type Request, type Response } from "express";
+import { db } from "../db";
+import { exchangeRates, product } from "../db/schema";
+import { tryCatch } from "../errorHandlers";
+import { BadRequestError, ConflictError, NotFoundError } from "../errors";
+import { validateRequest } from "../middlewares/validate.middleware";
+import { authenticateToken, authorize } from "../middlewares/auth.middleware";
+import { BASE_CURRENCY } from "../services/pricing.service";
+import {
+  exchangeRateListResponseSchema,
+  exchangeRateParamsSchema,
+  exchangeRateSchema,
+} from "../schemas/exchange-rate.schema";
+import { ExchangeRate, SuccessResponse, describeRoute, errors, json } from "../services/openapi.service";
+
+const router = Router();
+
+// Rates are units of a currency per one unit of the base currency
+router.get(
+  "/",
+  describeRoute({
+    tags: ["Exchange rates"],
+    summary: "List exchange rates, as units per one unit of the base currency",
+    responses: { 200: json(exchangeRateListResponseSchema) },
+  }),
+  tryCatch(async (req: Request, res: Response) => {
+    const rates = await db
+      .select()
+      .from(exchangeRates)
+      .orderBy(asc(exchangeRates.currency));
+
+    res.status(StatusCodes.OK).json({
+      baseCurrency: BASE_CURRENCY,
+      rates,
+    });
+  })
+);
+
+router.put(
+  "/:currency",
+  describeRoute({
+    tags: ["Exchange rates"],
+    summary: "Set the exchange rate of a currency",
+    responses: { 200: json(ExchangeRate), ...errors(400, 401, 403) },
+  }),
+  authenticateToken,
+  authorize("admin"),
+  validateRequest({ params: exchangeRateParamsSchema, body: exchangeRateSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const { currency } = req.params;
+    const { rate } = req.body as z.infer<typeof exchangeRateSchema>;
+
+    if (currency === BASE_CURRENCY) {
+      throw new BadRequestError(`${BASE_CURRENCY} is the base currency and always has a rate of 1`);
+    }
+
+    const [saved] = await db
+      .insert(exchangeRates)
+      .values({ currency, rate: String(rate) })
+      .onConflictDoUpdate({
+        target: exchangeRates.currency,
+        set: { rate: String(rate), updatedAt: new Date() },
+      })
+      .returning();
+
+    res.status(StatusCodes.OK).json(saved);
+  })
+);
+
+router.delete(
+  "/:currency",
+  describeRoute({
+    tags: ["Exchange rates"],
+    summary: "Delete the exchange rate of a currency",
+    responses: { 200: json(SuccessResponse), ...errors(400, 401, 403, 404, 409) },
+  }),
+  authenticateToken,
+  authorize("admin"),
+  validateRequest({ params: exchangeRateParamsSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const { currency } = req.params;
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(product)
+      .where(and(eq(product.currency, currency), isNull(product.deletedAt)));
+
+    if (total > 0) {
+      throw new ConflictError(
+        `${total} product(s) are priced in ${currency}, change their currency first`,
+        "CURRENCY_IN_USE"
+      );
+    }
+
+    const [deleted] = await db
+      .delete(exchangeRates)
+      .where(eq(exchangeRates.currency, currency))
+      .returning();
+
+    if (!deleted) {
+      throw new NotFoundError("Exchange rate not found");
+    }
+
+    res.status(StatusCodes.OK).json({
+      success: true,
+      message: `Deleted the exchange rate for ${currency}`
+    });
+  })
+);
+
+export { router as exchangeRatesRouter };
@@ -0,0 +1,186 @@
+import { Router } from "express";
+import { StatusCodes } from "http-status-codes";
+import { z } from "zod";
+import { and, asc, eq, gt, inArray, isNull, lte, or } from "drizzle-orm";
+import { type Request, type Response } from "express";
+import { db } from "../db";
+import { product } from "../db/schema";
+import { tryCatch } from "../errorHandlers";
+import { BadRequestError } from "../errors";
+import { validateRequest } from "../middlewares/validate.middleware";
+import { authenticateToken, authorize } from "../middlewares/auth.middleware";
+import { hydrateProducts, isPublished, presentProducts } from "../services/product.service";
+import { getProductSnapshot, recordAudit } from "../services/audit.service";
+import { heroOrderSchema, heroSlotResponseSchema } from "../schemas/hero.schema";
+import { Product, describeRoute, errors, json } from "../services/openapi.service";
+
+const heroOrder = [asc(product.heroIndex), asc(product.id)];
+
+const getSlotStatus = (slot: { heroStartsAt: Date | null; heroEndsAt: Date | null }, now: Date) => {
+  if (slot.heroStartsAt && slot.heroStartsAt > now) return "scheduled";
+  if (slot.heroEndsAt && slot.heroEndsAt <= now) return "expired";
+  return "active";
+};
+
+const sameTime = (a: Date | null, b: Date | null) => (a?.getTime() ?? null) === (b?.getTime() ?? null);
+
+/**
+ * Every carousel slot including scheduled and expired ones, see heroSlotResponseSchema
+ */
+const listHeroSlots = async () => {
+  const now = new Date();
+
+  const heroProducts = await db
+    .select()
+    .from(product)
+    .where(and(eq(product.showInHero, true), isNull(product.deletedAt)))
+    .orderBy(...heroOrder);
+
+  const products = await hydrateProducts(heroProducts);
+
+  return products.map((prod) => ({
+    productId: prod.id,
+    position: prod.heroIndex,
+    startsAt: prod.heroStartsAt,
+    endsAt: prod.heroEndsAt,
+    status: getSlotStatus(prod, now),
+    product: prod,
+  }));
+};
+
+const router = Router();
+
+// Get the products currently shown in the carousel
+router.get(
+  "/",
+  describeRoute({
+    tags: ["Hero"],
+    summary: "Get the products currently shown in the carousel",
+    responses: { 200: json(z.array(Product)) },
+  }),
+  tryCatch(async (req: Request, res: Response) => {
+    const now = new Date();
+
+    const heroProducts = await db
+      .select()
+      .from(product)
+      .where(
+        and(
+          eq(product.showInHero, true),
+          isNull(product.deletedAt),
+          isPublished(),
+          or(isNull(product.heroStartsAt), lte(product.heroStartsAt, now)),
+          or(isNull(product.heroEndsAt), gt(product.heroEndsAt, now))
+        )
+      )
+      .orderBy(...heroOrder);
+
+    res.status(StatusCodes.OK).json(await presentProducts(heroProducts, { locales: req.locales }));
+  })
+);
+
+// Get every carousel slot including scheduled and expired ones
+router.get(
+  "/slots",
+  describeRoute({
+    tags: ["Hero"],
+    summary: "Get every carousel slot including scheduled and expired ones",
+    responses: { 200: json(z.array(heroSlotResponseSchema)), ...errors(401, 403) },
+  }),
+  authenticateToken,
+  authorize("admin", "editor"),
+  tryCatch(async (_, res: Response) => {
+    res.status(StatusCodes.OK).json(await listHeroSlots());
+  })
+);
+
+// Replace the whole carousel in one transaction
+router.put(
+  "/",
+  describeRoute({
+    tags: ["Hero"],
+    summary: "Replace the carousel",
+    responses: { 200: json(z.array(heroSlotResponseSchema)), ...errors(400, 401, 403) },
+  }),
+  authenticateToken,
+  authorize("admin", "editor"),
+  validateRequest({ body: heroOrderSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const { slots } = req.body as z.infer<typeof heroOrderSchema>;
+    const productIds = slots.map((slot) => slot.productId);
+
+    if (productIds.length > 0) {
+      const existing = await db
+        .select({ id: product.id })
+        .from(product)
+        .where(and(inArray(product.id, productIds), isNull(product.deletedAt)));
+
+      const missingIds = productIds.filter((id) => !existing.some((row) => row.id === id));
+      if (missingIds.length > 0) {
+        throw new BadRequestError(`Unknown product IDs: ${missingIds.join(", ")}`);
+      }
+    }
+
+    const placements = new Map(
+      slots.map((slot, position) => [
+        slot.productId,
+        {
+          showInHero: true,
+          heroIndex: position,
+          heroStartsAt: slot.startsAt ?? null,
+          heroEndsAt: slot.endsAt ?? null,
+        },
+      ])
+    );
+
+    await db.transaction(async (tx) => {
+      const affected = await tx
+        .select({
+          id: product.id,
+          showInHero: product.showInHero,
+          heroIndex: product.heroIndex,
+          heroStartsAt: product.heroStartsAt,
+          heroEndsAt: product.heroEndsAt,
+        })
+        .from(product)
+        .where(
+          productIds.length > 0
+            ? or(eq(product.showInHero, true), inArray(product.id, productIds))
+            : eq(product.showInHero, true)
+        );
+
+      // Only products whose placement changes are written and audited
+      for (const current of affected) {
+        const placement = placements.get(current.id) ?? {
+          showInHero: false,
+          heroIndex: 0,
+          heroStartsAt: null,
+          heroEndsAt: null,
+        };
+        if (
+          current.showInHero === placement.showInHero &&
+          current.heroIndex === placement.heroIndex &&
+          sameTime(current.heroStartsAt, placement.heroStartsAt) &&
+          sameTime(current.heroEndsAt, placement.heroEndsAt)
+        ) {
+          continue;
+        }
+
+        const before = await getProductSnapshot(current.id, tx);
+        await tx.update(product).set(placement).where(eq(product.id, current.id));
+
+        await recordAudit(tx, req, {
+          entityType: "product",
+          entityId: current.id,
+          action: "update",
+          before,
+          after: await getProductSnapshot(current.id, tx),
+        });
+      }
+    });
+
+    res.status(StatusCodes.OK).json(await listHeroSlots());
+  })
+);
+
+export { router as heroRouter };
@@ -0,0 +1,242 @@
+import { Router } from "express";
+import { StatusCodes } from "http-status-codes";
+import { z } from "zod";
+import { and, count, desc, eq, ilike, isNull, or, type SQL } from "drizzle-orm";
+import { type Request, type Response } from "express";
+import { db } from "../db";
+import { inquiries, product, users } from "../db/schema";
+import { tryCatch } from "../errorHandlers";
+import { BadRequestError, NotFoundError } from "../errors";
+import { validateRequest } from "../middlewares/validate.middleware";
+import { authenticateToken, authorize } from "../middlewares/auth.middleware";
+import { rateLimit } from "../middlewares/rate-limit.middleware";
+import { getInquiryRecipients, notify } from "../services/notifications";
+import { isPublished } from "../services/product.service";
+import { idParamsSchema, paginated } from "../schemas/common.schema";
+import {
+  inquiryAssignSchema,
+  inquiryListItemSchema,
+  inquiryListQuerySchema,
+  inquirySchema,
+  inquiryStatusSchema,
+  type InquiryListQuery,
+} from "../schemas/inquiry.schema";
+import { Inquiry, SuccessResponse, describeRoute, errors, json } from "../services/openapi.service";
+
+const inquiryRateLimit = rateLimit({
+  name: "inquiry",
+  windowMs: Number(process.env.INQUIRY_RATE_LIMIT_WINDOW_MS) || 60 * 60 * 1000,
+  max: Number(process.env.INQUIRY_RATE_LIMIT_MAX) || 5,
+});
+
+const findInquiry = async (id: number) => {
+  const [inquiry] = await db
+    .select()
+    .from(inquiries)
+    .where(eq(inquiries.id, id))
+    .limit(1);
+
+  if (!inquiry) {
+    throw new NotFoundError("Inquiry not found");
+  }
+
+  return inquiry;
+};
+
+// Public endpoint, mounted under /products/:id/inquiries
+const productInquiriesRouter = Router({ mergeParams: true });
+
+productInquiriesRouter.post(
+  "/",
+  describeRoute({
+    tags: ["Inquiries"],
+    summary: "Send an inquiry about a product",
+    responses: { 201: json(SuccessResponse, "Created"), ...errors(400, 404, 429) },
+  }),
+  inquiryRateLimit,
+  validateRequest({ params: idParamsSchema, body: inquirySchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const productId = Number(req.params.id);
+    const { website, ...inquiry } = req.body as z.infer<typeof inquirySchema>;
+
+    const response = {
+      success: true,
+      message: "Thank you, we will get back to you shortly",
+    };
+
+    // Pretend success so bots do not learn about the honeypot
+    if (website) {
+      res.status(StatusCodes.CREATED).json(response);
+      return;
+    }
+
+    const [foundProduct] = await db
+      .select({ id: product.id, name: product.name })
+      .from(product)
+      .where(and(eq(product.id, productId), isNull(product.deletedAt), isPublished()))
+      .limit(1);
+
+    if (!foundProduct) {
+      throw new NotFoundError("Product not found");
+    }
+
+    const [created] = await db
+      .insert(inquiries)
+      .values({
+        ...inquiry,
+        productId,
+        ipAddress: req.ip,
+      })
+      .returning();
+
+    notify(getInquiryRecipients(), "inquiryReceived", {
+      inquiryId: created.id,
+      productName: foundProduct.name,
+      name: created.name,
+      company: created.company,
+      email: created.email,
+      phone: created.phone,
+      quantity: created.quantity,
+      message: created.message,
+    });
+
+    res.status(StatusCodes.CREATED).json(response);
+  })
+);
+
+// Admin endpoints, mounted under /inquiries
+const router = Router();
+
+router.use(authenticateToken, authorize("admin", "editor"));
+
+router.get(
+  "/",
+  describeRoute({
+    tags: ["Inquiries"],
+    summary: "List inquiries",
+    responses: { 200: json(paginated(inquiryListItemSchema)), ...errors(400, 401, 403) },
+  }),
+  validateRequest({ query: inquiryListQuerySchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const query = req.query as unknown as InquiryListQuery;
+
+    const conditions: SQL[] = [];
+    if (query.status) conditions.push(eq(inquiries.status, query.status));
+    if (query.productId) conditions.push(eq(inquiries.productId, query.productId));
+    if (query.assignedTo) conditions.push(eq(inquiries.assignedTo, query.assignedTo));
+    if (query.q) {
+      const pattern = `%${query.q.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(
+        or(
+          ilike(inquiries.name, pattern),
+          ilike(inquiries.company, pattern),
+          ilike(inquiries.email, pattern)
+        )!
+      );
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(inquiries)
+      .where(where);
+
+    const rows = await db
+      .select({
+        inquiry: inquiries,
+        product: { id: product.id, name: product.name },
+      })
+      .from(inquiries)
+      .leftJoin(product, eq(inquiries.productId, product.id))
+      .where(where)
+      .orderBy(desc(inquiries.createdAt), desc(inquiries.id))
+      .limit(query.limit)
+      .offset((query.page - 1) * query.limit);
+
+    res.status(StatusCodes.OK).json({
+      data: rows.map((row) => ({ ...row.inquiry, product: row.product })),
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit),
+      },
+    });
+  })
+);
+
+router.get(
+  "/:id",
+  describeRoute({
+    tags: ["Inquiries"],
+    summary: "Get an inquiry",
+    responses: { 200: json(Inquiry), ...errors(400, 401, 403, 404) },
+  }),
+  validateRequest({ params: idParamsSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const inquiry = await findInquiry(Number(req.params.id));
+    res.status(StatusCodes.OK).json(inquiry);
+  })
+);
+
+router.put(
+  "/:id/status",
+  describeRoute({
+    tags: ["Inquiries"],
+    summary: "Change the status of an inquiry",
+    responses: { 200: json(Inquiry), ...errors(400, 401, 403, 404) },
+  }),
+  validateRequest({ params: idParamsSchema, body: inquiryStatusSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    const { status } = req.body as z.infer<typeof inquiryStatusSchema>;
+
+    await findInquiry(id);
+
+    const [updated] = await db
+      .update(inquiries)
+      .set({ status, updatedAt: new Date() })
+      .where(eq(inquiries.id, id))
+      .returning();
+
+    res.status(StatusCodes.OK).json(updated);
+  })
+);
+
+router.put(
+  "/:id/assign",
+  describeRoute({
+    tags: ["Inquiries"],
+    summary: "Assign an inquiry to a user",
+    responses: { 200: json(Inquiry), ...errors(400, 401, 403, 404) },
+  }),
+  validateRequest({ params: idParamsSchema, body: inquiryAssignSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    const { userId } = req.body as z.infer<typeof inquiryAssignSchema>;
+
+    await findInquiry(id);
+
+    if (userId !== null) {
+      const [assignee] = await db
+        .select({ id: users.id, isActive: users.isActive })
+        .from(users)
+        .where(eq(users.id, userId))
+        .limit(1);
+
+      if (!assignee || !assignee.isActive) {
+        throw new BadRequestError("Assignee must be an active user");
+      }
+    }
+
+    const [updated] = await db
+      .update(inquiries)
+      .set({ assignedTo: userId, updatedAt: new Date() })
+      .where(eq(inquiries.id, id))
+      .returning();
+
+    res.status(StatusCodes.OK).json(updated);
+  })
+);
+
+export { router as inquiriesRouter, productInquiriesRouter };
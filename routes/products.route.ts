@@ -1,390 +1,1294 @@
 import { Router } from "express";
 import { StatusCodes } from "http-status-codes";
 import { z } from "zod";
-import { eq, inArray } from "drizzle-orm";
-import multer, { type FileFilterCallback } from "multer";
-import path from "path";
-import fs from "fs";
-import { v4 as uuidv4 } from "uuid";
-import { type Request, type Response, type NextFunction } from "express";
+import { and, asc, count, desc, eq, gte, ilike, inArray, isNotNull, isNull, lte, or, sql, type SQL } from "drizzle-orm";
+import { type Request, type Response } from "express";
 import { db } from "../db";
-import { product, category } from "../db/schema";
+import {
+  product,
+  productCategory,
+  productImages,
+  productTranslations,
+  type ProductStatus,
+} from "../db/schema";
 import { tryCatch } from "../errorHandlers";
+import {
+  BadRequestError,
+  NotFoundError,
+  ValidationError,
+} from "../errors";
 import { validateRequest } from "../middlewares/validate.middleware";
-import { authenticateToken } from "../middlewares/auth.middleware";
+import {
+  authenticateToken,
+  authorize,
+  optionalAuthentication,
+} from "../middlewares/auth.middleware";
+import { uploadImages } from "../middlewares/image.middleware";
+import { parseMultipartFields } from "../middlewares/multipart.middleware";
+import { uploadSpreadsheet } from "../middlewares/spreadsheet.middleware";
+import {
+  findMissingCategoryIds,
+  getCategoryIdsForProduct,
+  setProductCategories,
+} from "../services/product-category.service";
+import {
+  addProductImages,
+  ensurePrimaryImage,
+  presentImages,
+} from "../services/product-image.service";
+import {
+  getImageFiles,
+  type ProcessedImage,
+} from "../services/image-processing.service";
+import { deleteStoredFiles } from "../services/storage";
+import { hydrateProducts, isPublished, presentProducts } from "../services/product.service";
+import {
+  getSpecTemplateForCategories,
+  validateMachineData,
+} from "../services/spec-template.service";
+import { buildComparisonMatrix } from "../services/product-compare.service";
+import { getProductSnapshot, recordAudit } from "../services/audit.service";
+import {
+  findBySlug,
+  recordSlugChange,
+  resolveSlugForSave,
+} from "../services/slug.service";
+import {
+  createProductRevision,
+  diffRevisionData,
+  getCurrentRevisionData,
+  getProductRevision,
+  listProductRevisions,
+} from "../services/product-revision.service";
+import {
+  applyImport,
+  exportProducts,
+  planImport,
+} from "../services/product-import.service";
+import {
+  SPREADSHEET_CONTENT_TYPES,
+  readSpreadsheet,
+  writeSpreadsheet,
+} from "../services/spreadsheet.service";
+import {
+  convertedPriceSql,
+  currencyQuerySchema,
+  hasPricingInput,
+  resolvePricing,
+} from "../services/pricing.service";
+import { idParamsSchema, paginated, paginationQuerySchema } from "../schemas/common.schema";
+import {
+  productCompareQuerySchema,
+  productCompareResponseSchema,
+  productCreateSchema,
+  productExportQuerySchema,
+  productImageOrderSchema,
+  productImageParamsSchema,
+  productImportMappingSchema,
+  productImportQuerySchema,
+  productImportResponseSchema,
+  productListQuerySchema,
+  productPublishSchema,
+  productRevisionDiffQuerySchema,
+  productRevisionDiffResponseSchema,
+  productRevisionParamsSchema,
+  productRevisionResponseSchema,
+  productRevisionSummarySchema,
+  productUnpublishSchema,
+  productUpdateSchema,
+  type ProductListQuery,
+} from "../schemas/product.schema";
+import {
+  Product,
+  ProductImage,
+  SuccessResponse,
+  binary,
+  describeRoute,
+  errors,
+  json,
+  slugRedirect,
+} from "../services/openapi.service";
 
-const UPLOAD_DIR = path.join(process.cwd(), "uploads");
-const IMAGE_URL_PREFIX = "/uploads/products";
+const productSortColumns = {
+  id: product.id,
+  name: product.name,
+};
 
-if (!fs.existsSync(UPLOAD_DIR)) {
-  fs.mkdirSync(UPLOAD_DIR, { recursive: true });
-}
+const buildProductFilters = (query: ProductListQuery, includeUnpublished: boolean) => {
+  const conditions: SQL[] = [isNull(product.deletedAt)];
 
-const storage = multer.diskStorage({
-  destination: (_, __, cb) => {
-    const productUploadsDir = path.join(UPLOAD_DIR, "products");
-    if (!fs.existsSync(productUploadsDir)) {
-      fs.mkdirSync(productUploadsDir, { recursive: true });
-    }
-    cb(null, productUploadsDir);
-  },
-  filename: (_, file, cb) => {
-    const uniqueFilename = `${uuidv4()}${path.extname(file.originalname)}`;
-    cb(null, uniqueFilename);
-  },
-});
+  if (!includeUnpublished) {
+    conditions.push(isPublished());
+  }
+
+  if (query.status) {
+    conditions.push(eq(product.status, query.status));
+  }
+
+  if (query.q) {
+    const searchVector = sql`to_tsvector('english', ${product.name} || ' ' || ${product.description})`;
+    const pattern = `%${query.q.replace(/[\\%_]/g, "\\$&")}%`;
+    conditions.push(
+      or(
+        sql`${searchVector} @@ websearch_to_tsquery('english', ${query.q})`,
+        ilike(product.name, pattern),
+        inArray(
+          product.id,
+          db
+            .select({ productId: productTranslations.productId })
+            .from(productTranslations)
+            .where(ilike(productTranslations.name, pattern))
+        )
+      )!
+    );
+  }
 
-const fileFilter = (_: Request, file: Express.Multer.File, cb: FileFilterCallback) => {
-  if (!file) {
-    cb(null, true);
-    return;
+  if (query.categoryId !== undefined) {
+    conditions.push(
+      inArray(
+        product.id,
+        db
+          .select({ productId: productCategory.productId })
+          .from(productCategory)
+          .where(eq(productCategory.categoryId, query.categoryId))
+      )
+    );
   }
-  
-  const allowedTypes = /jpeg|jpg|png|webp/;
-  const extname = allowedTypes.test(
-    path.extname(file.originalname).toLowerCase()
-  );
-  const mimetype = allowedTypes.test(file.mimetype);
-
-  if (extname && mimetype) {
-    cb(null, true);
-  } else {
-    cb(null, false);
+
+  // Amounts are in the requested currency, or the base currency without one
+  if (query.minPrice !== undefined) {
+    conditions.push(gte(convertedPriceSql(query.currency), String(query.minPrice)));
+  }
+
+  if (query.maxPrice !== undefined) {
+    conditions.push(lte(convertedPriceSql(query.currency), String(query.maxPrice)));
   }
+
+  if (query.isContactForPrice !== undefined) {
+    conditions.push(eq(product.isContactForPrice, query.isContactForPrice));
+  }
+
+  if (query.showInHero !== undefined) {
+    conditions.push(eq(product.showInHero, query.showInHero));
+  }
+
+  return and(...conditions);
 };
 
-const uploadMiddleware = multer({
-  storage,
-  limits: { 
-    fileSize: 50 * 1024 * 1024,
-    files: 10
-  },
-  fileFilter
+const handleImageUpload = uploadImages({
+  field: "images",
+  maxCount: 10,
+  folder: "products",
 });
 
-const productBaseSchema = {
-  name: z.string().min(3, "Name must be at least 3 characters").max(100),
-  description: z.string().min(10, "Description must be at least 10 characters"),
-  price: z.string().optional(),
-  isContactForPrice: z.boolean().optional(),
-  machineData: z.unknown(),
-  showInHero: z.boolean(),
-  heroIndex: z.number(),
-  categoryIds: z.array(z.number()).optional()
+const parseProductMultipart = parseMultipartFields(
+  "machineData",
+  "categoryIds",
+  "priceTiers",
+  "isContactForPrice",
+  "priceIsStartingFrom"
+);
+
+const productMultipartSchema = (schema: typeof productCreateSchema | typeof productUpdateSchema) =>
+  schema.extend({
+    machineData: z.string().optional().openapi({ description: "machineData as a JSON string" }),
+    categoryIds: z.string().optional().openapi({ description: "categoryIds as a JSON string" }),
+    priceTiers: z.string().optional().openapi({ description: 'priceTiers as JSON or as "10:950|50:900"' }),
+    images: z.array(binary).max(10).optional(),
+  });
+
+// Multipart forms send the mapping as a JSON string
+const parseImportMapping = (value: unknown) => {
+  if (value === undefined || value === "") {
+    return {};
+  }
+
+  let parsed = value;
+  if (typeof value === "string") {
+    try {
+      parsed = JSON.parse(value);
+    } catch (error) {
+      throw new BadRequestError("Invalid mapping format");
+    }
+  }
+
+  const result = productImportMappingSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new BadRequestError("Mapping must be an object of column names to fields", "INVALID_MAPPING");
+  }
+
+  return result.data;
 };
 
-export const productSchema = z.object({
-  ...productBaseSchema,
-  imageUrl: z.string().url("Invalid image URL").optional(),
-});
+const getUploadedImages = (req: Request): ProcessedImage[] => req.processedImages ?? [];
 
-export const productIdSchema = z.object({
-  id: z.string().regex(/^\d+$/).transform(Number),
-});
+const findProductImage = async (productId: number, imageId: number) => {
+  const [row] = await db
+    .select({ image: productImages })
+    .from(productImages)
+    .innerJoin(product, eq(productImages.productId, product.id))
+    .where(
+      and(
+        eq(productImages.id, imageId),
+        eq(productImages.productId, productId),
+        isNull(product.deletedAt)
+      )
+    )
+    .limit(1);
+
+  return row?.image;
+};
+
+// Trashed products are treated as missing everywhere but in the trash endpoints
+const findActiveProduct = async (id: number) => {
+  const [found] = await db
+    .select()
+    .from(product)
+    .where(and(eq(product.id, id), isNull(product.deletedAt)))
+    .limit(1);
+
+  return found;
+};
+
+const setProductStatus = async (
+  req: Request,
+  id: number,
+  changes: { status: ProductStatus; publishAt: Date | null }
+) => {
+  if (!(await findActiveProduct(id))) {
+    throw new NotFoundError("Product not found");
+  }
+
+  return db.transaction(async (tx) => {
+    const before = await getProductSnapshot(id, tx);
+
+    const [updated] = await tx
+      .update(product)
+      .set(changes)
+      .where(eq(product.id, id))
+      .returning();
+
+    await recordAudit(tx, req, {
+      entityType: "product",
+      entityId: id,
+      action: "update",
+      before,
+      after: await getProductSnapshot(id, tx),
+    });
+
+    const [hydrated] = await hydrateProducts([updated], tx);
+    return hydrated;
+  });
+};
 
 const router = Router();
 
 router.post(
   "/",
+  describeRoute({
+    tags: ["Products"],
+    summary: "Create a product",
+    request: {
+      body: {
+        content: {
+          "application/json": { schema: productCreateSchema },
+          "multipart/form-data": { schema: productMultipartSchema(productCreateSchema) },
+        },
+      },
+    },
+    responses: { 201: json(Product, "Created"), ...errors(400, 401, 403, 409) },
+  }),
   authenticateToken,
-  (req: Request, res: Response, next: NextFunction) => {
-    uploadMiddleware.array("images", 10)(req, res, (err: any) => {
-      if (err instanceof multer.MulterError) {
-        return res.status(StatusCodes.BAD_REQUEST).json({
-          error: `Upload error: ${err.message}`
-        });
-      }
-      if (err) {
-        return res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
-          error: `Unknown error: ${err.message}`
-        });
-      }
-      next();
-    });
-  },
+  authorize("admin", "editor"),
+  handleImageUpload,
+  parseProductMultipart,
+  validateRequest({ body: productCreateSchema }),
   tryCatch(async (req: Request, res: Response) => {
-    const { 
-      name, 
-      description, 
-      price, 
-      isContactForPrice, 
-      showInHero, 
-      heroIndex, 
-      machineData,
-      categoryIds 
-    } = req.body;
+    const {
+      name,
+      description,
+      price,
+      isContactForPrice,
+      currency,
+      priceIsStartingFrom,
+      priceTiers,
+      machineData = {},
+      categoryIds = [],
+      status,
+      slug,
+    } = req.body as z.infer<typeof productCreateSchema>;
+
+    const pricing = resolvePricing({ price, currency, isContactForPrice, priceIsStartingFrom, priceTiers });
+    const uploadedImages = getUploadedImages(req);
+
+    const missingCategoryIds = await findMissingCategoryIds(categoryIds);
+    if (missingCategoryIds.length > 0) {
+      throw new BadRequestError(`Unknown category IDs: ${missingCategoryIds.join(", ")}`);
+    }
+
+    const validatedMachineData = await validateMachineData(machineData, categoryIds);
 
-    if (!name || !description) {
-      res.status(StatusCodes.BAD_REQUEST).json({
-        error: "Name and description are required",
+    const newProduct = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(product)
+        .values({
+          name,
+          slug: await resolveSlugForSave(tx, "product", { name, slug }),
+          description,
+          ...pricing,
+          machineData: validatedMachineData,
+          // The carousel is managed through PUT /hero only
+          showInHero: false,
+          status,
+        })
+        .returning();
+
+      await setProductCategories(tx, created.id, categoryIds);
+      await addProductImages(tx, created.id, uploadedImages);
+
+      await recordAudit(tx, req, {
+        entityType: "product",
+        entityId: created.id,
+        action: "create",
+        before: null,
+        after: await getProductSnapshot(created.id, tx),
       });
-      return;
+
+      const [hydrated] = await hydrateProducts([created], tx);
+      return hydrated;
+    });
+
+    res.status(StatusCodes.CREATED).json(newProduct);
+  })
+);
+
+router.get(
+  "/",
+  describeRoute({
+    tags: ["Products"],
+    summary: "Search and filter products",
+    responses: { 200: json(paginated(Product)), ...errors(400) },
+  }),
+  optionalAuthentication,
+  validateRequest({ query: productListQuerySchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const query = req.query as unknown as ProductListQuery;
+
+    if (
+      query.minPrice !== undefined &&
+      query.maxPrice !== undefined &&
+      query.minPrice > query.maxPrice
+    ) {
+      throw new BadRequestError("minPrice cannot be greater than maxPrice");
     }
 
-    let imageUrls: string[] = [];
-    if (req.files && Array.isArray(req.files)) {
-      imageUrls = (req.files as Express.Multer.File[]).map(
-        file => `${IMAGE_URL_PREFIX}/${file.filename}`
+    const where = buildProductFilters(query, req.user !== undefined);
+    const direction = query.order === "desc" ? desc : asc;
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(product)
+      .where(where);
+
+    const products = await db
+      .select()
+      .from(product)
+      .where(where)
+      .orderBy(
+        // Prices in other currencies are compared after conversion
+        query.sort === "price"
+          ? sql`${convertedPriceSql(query.currency)} ${sql.raw(query.order)} nulls last`
+          : direction(productSortColumns[query.sort]),
+        direction(product.id)
+      )
+      .limit(query.limit)
+      .offset((query.page - 1) * query.limit);
+
+    const hydratedProducts = await presentProducts(products, { locales: req.locales, currency: query.currency });
+
+    res.status(StatusCodes.OK).json({
+      data: hydratedProducts,
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit),
+      },
+    });
+  })
+);
+
+router.get(
+  "/compare",
+  describeRoute({
+    tags: ["Products"],
+    summary: "Compare the specifications of several products",
+    responses: { 200: json(productCompareResponseSchema), ...errors(400, 404) },
+  }),
+  optionalAuthentication,
+  validateRequest({ query: productCompareQuerySchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const { ids, currency } = req.query as unknown as z.infer<typeof productCompareQuerySchema>;
+
+    const foundProducts = await db
+      .select()
+      .from(product)
+      .where(
+        and(
+          inArray(product.id, ids),
+          isNull(product.deletedAt),
+          req.user ? undefined : isPublished()
+        )
       );
+
+    const missingIds = ids.filter((id) => !foundProducts.some((prod) => prod.id === id));
+    if (missingIds.length > 0) {
+      throw new NotFoundError(`Products not found: ${missingIds.join(", ")}`);
     }
 
-    let parsedMachineData = {};
-    try {
-      parsedMachineData = machineData ? JSON.parse(machineData) : {};
-    } catch (error) {
-      res.status(StatusCodes.BAD_REQUEST).json({
-        error: "Invalid machine data format",
-      });
-      return;
+    // Keep the order requested by the client
+    const products = await presentProducts(
+      ids.map((id) => foundProducts.find((prod) => prod.id === id)!),
+      { locales: req.locales, currency }
+    );
+
+    const categoryIds = [
+      ...new Set(products.flatMap((prod) => prod.categories.map((cat) => cat.id))),
+    ];
+    const fields = await getSpecTemplateForCategories(categoryIds);
+
+    // Rows use the machineDataLabels of the requested locale
+    res.status(StatusCodes.OK).json({
+      products,
+      attributes: buildComparisonMatrix(products, fields),
+    });
+  })
+);
+
+// Creates or updates products from a CSV or XLSX file. With dryRun=true only
+// the per-row report is returned; otherwise nothing is written unless every row is valid.
+router.post(
+  "/import",
+  describeRoute({
+    tags: ["Products"],
+    summary: "Create or update products from a CSV or XLSX file",
+    request: {
+      body: {
+        content: {
+          "multipart/form-data": {
+            schema: z.object({
+              file: binary,
+              mapping: z.string().optional().openapi({
+                description: "Column mapping as a JSON string",
+                example: JSON.stringify({ Leistung: "machineData.power" }),
+              }),
+            }),
+          },
+        },
+      },
+    },
+    responses: { 200: json(productImportResponseSchema), ...errors(400, 401, 403) },
+  }),
+  authenticateToken,
+  authorize("admin", "editor"),
+  validateRequest({ query: productImportQuerySchema }),
+  uploadSpreadsheet,
+  tryCatch(async (req: Request, res: Response) => {
+    const { dryRun, matchBy } = req.query as unknown as z.infer<typeof productImportQuerySchema>;
+
+    if (!req.file) {
+      throw new BadRequestError("No file received");
     }
 
-    let parsedCategoryIds: number[] = [];
-    try {
-      parsedCategoryIds = categoryIds ? 
-        (Array.isArray(categoryIds) ? categoryIds : JSON.parse(categoryIds))
-          .map(Number)
-          .filter((id: number) => !isNaN(id)) : 
-        [];
-    } catch (error) {
-      res.status(StatusCodes.BAD_REQUEST).json({
-        error: "Invalid category IDs format",
-      });
-      return;
+    const mapping = parseImportMapping(req.body?.mapping);
+    const sheet = await readSpreadsheet(req.file.buffer);
+    const plan = await planImport(sheet, { mapping, matchBy });
+
+    if (!dryRun && plan.summary.failed > 0) {
+      throw new ValidationError(
+        plan.results.flatMap((result) =>
+          result.errors.map((error) => ({
+            path: `rows.${result.row}.${error.path}`,
+            message: error.message,
+          }))
+        ),
+        "The import has invalid rows, nothing was imported"
+      );
+    }
+
+    if (!dryRun) {
+      await applyImport(plan, req);
     }
 
-    const [newProduct] = await db
-      .insert(product)
-      .values({
-        name,
-        description,
-        price: price || null,
-        isContactForPrice: isContactForPrice === 'true' || isContactForPrice === true || false,
-        machineData: {
-          ...parsedMachineData,
-          images: imageUrls,
-          categories: parsedCategoryIds
+    res.status(StatusCodes.OK).json({
+      dryRun,
+      matchBy,
+      ignoredColumns: plan.ignoredColumns,
+      summary: plan.summary,
+      rows: plan.results,
+    });
+  })
+);
+
+// Exports every product that is not in the trash in the import format
+router.get(
+  "/export",
+  describeRoute({
+    tags: ["Products"],
+    summary: "Export all products as CSV or XLSX",
+    responses: {
+      200: {
+        description: "The spreadsheet file",
+        content: {
+          "text/csv": { schema: binary },
+          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": { schema: binary },
         },
-        showInHero: showInHero === 'true' || showInHero === true || false,
-        heroIndex: Number(heroIndex) || 0
-      })
-      .returning();
+      },
+      ...errors(400, 401, 403),
+    },
+  }),
+  authenticateToken,
+  authorize("admin", "editor"),
+  validateRequest({ query: productExportQuerySchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const { format } = req.query as unknown as z.infer<typeof productExportQuerySchema>;
 
-    res.status(StatusCodes.CREATED).json(newProduct);
+    const file = await writeSpreadsheet(format, await exportProducts());
+
+    res
+      .status(StatusCodes.OK)
+      .setHeader("Content-Type", SPREADSHEET_CONTENT_TYPES[format])
+      .setHeader("Content-Disposition", `attachment; filename="products.${format}"`)
+      .send(file);
   })
 );
 
+// Trashed products, most recently deleted first
 router.get(
-  "/",
-  tryCatch(async (_, res: Response) => {
-    const allProducts = await db.select().from(product);
-    const categories = await db.select().from(category);
-    
-    const productsWithCategories = allProducts.map(prod => {
-      const machineData = prod.machineData as { categories?: number[] } || {};
-      const productCategories = categories.filter(cat => 
-        machineData.categories?.includes(cat.id)
-      );
-      
-      return {
-        ...prod,
-        categories: productCategories
-      };
-    });
+  "/trash",
+  describeRoute({
+    tags: ["Products"],
+    summary: "List trashed products",
+    responses: { 200: json(paginated(Product)), ...errors(400, 401, 403) },
+  }),
+  authenticateToken,
+  authorize("admin"),
+  validateRequest({ query: paginationQuerySchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const query = req.query as unknown as z.infer<typeof paginationQuerySchema>;
+    const where = isNotNull(product.deletedAt);
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(product)
+      .where(where);
+
+    const products = await db
+      .select()
+      .from(product)
+      .where(where)
+      .orderBy(desc(product.deletedAt), desc(product.id))
+      .limit(query.limit)
+      .offset((query.page - 1) * query.limit);
 
-    res.status(StatusCodes.OK).json(productsWithCategories);
+    res.status(StatusCodes.OK).json({
+      data: await hydrateProducts(products),
+      pagination: {
+        page: query.page,
+        limit: query.limit,
+        total,
+        totalPages: Math.ceil(total / query.limit),
+      },
+    });
   })
 );
 
+// Looks a product up by slug, old slugs redirect to the current one
 router.get(
-  "/:id",
+  "/slug/:slug",
+  describeRoute({
+    tags: ["Products"],
+    summary: "Get a product by slug",
+    responses: { 200: json(Product), ...slugRedirect, ...errors(400, 404) },
+  }),
+  optionalAuthentication,
+  validateRequest({ query: currencyQuerySchema }),
   tryCatch(async (req: Request, res: Response) => {
-    const id = parseInt(req.params.id);
+    const { currency } = req.query as unknown as z.infer<typeof currencyQuerySchema>;
+    const match = await findBySlug("product", req.params.slug);
 
-    if (isNaN(id)) {
-      res.status(StatusCodes.BAD_REQUEST).json({
-        error: "Invalid product ID format",
-      });
+    const [foundProduct] = match
+      ? await db
+          .select()
+          .from(product)
+          .where(
+            and(
+              eq(product.id, match.id),
+              isNull(product.deletedAt),
+              req.user ? undefined : isPublished()
+            )
+          )
+          .limit(1)
+      : [];
+
+    if (!foundProduct) {
+      throw new NotFoundError("Product not found");
+    }
+
+    if (match!.redirect && foundProduct.slug) {
+      // Keep ?lang= and other query parameters
+      const search = req.originalUrl.includes("?") ? req.originalUrl.slice(req.originalUrl.indexOf("?")) : "";
+      res.redirect(StatusCodes.MOVED_PERMANENTLY, `${req.baseUrl}/slug/${foundProduct.slug}${search}`);
       return;
     }
 
-    const foundProduct = await db
+    const [hydratedProduct] = await presentProducts([foundProduct], { locales: req.locales, currency });
+
+    res.status(StatusCodes.OK).json(hydratedProduct);
+  })
+);
+
+router.get(
+  "/:id",
+  describeRoute({
+    tags: ["Products"],
+    summary: "Get a product",
+    responses: { 200: json(Product), ...errors(400, 404) },
+  }),
+  optionalAuthentication,
+  validateRequest({ params: idParamsSchema, query: currencyQuerySchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    const { currency } = req.query as unknown as z.infer<typeof currencyQuerySchema>;
+
+    const [foundProduct] = await db
       .select()
       .from(product)
-      .where(eq(product.id, id))
+      .where(
+        and(
+          eq(product.id, id),
+          isNull(product.deletedAt),
+          req.user ? undefined : isPublished()
+        )
+      )
       .limit(1);
 
-    if (foundProduct.length === 0) {
-      res.status(StatusCodes.NOT_FOUND).json({
-        error: "Product not found",
-      });
-      return;
+    if (!foundProduct) {
+      throw new NotFoundError("Product not found");
     }
 
-    const machineData = foundProduct[0].machineData as { categories?: number[] } || {};
-    let productCategories: { id: number; name: string }[] = [];
-    
-    if (machineData.categories?.length) {
-      productCategories = await db
-        .select()
-        .from(category)
-        .where(inArray(category.id, machineData.categories));
-    }
+    const [hydratedProduct] = await presentProducts([foundProduct], { locales: req.locales, currency });
 
-    const productWithCategories = {
-      ...foundProduct[0],
-      categories: productCategories
-    };
-
-    res.status(StatusCodes.OK).json(productWithCategories);
+    res.status(StatusCodes.OK).json(hydratedProduct);
   })
 );
 
 router.put(
   "/:id",
+  describeRoute({
+    tags: ["Products"],
+    summary: "Update a product",
+    request: {
+      body: {
+        content: {
+          "application/json": { schema: productUpdateSchema },
+          "multipart/form-data": { schema: productMultipartSchema(productUpdateSchema) },
+        },
+      },
+    },
+    responses: { 200: json(Product), ...errors(400, 401, 403, 404, 409) },
+  }),
   authenticateToken,
-  (req: Request, res: Response, next: NextFunction) => {
-    uploadMiddleware.array("images", 10)(req, res, (err: any) => {
-      if (err instanceof multer.MulterError) {
-        return res.status(StatusCodes.BAD_REQUEST).json({
-          error: `Upload error: ${err.message}`
-        });
-      }
-      if (err) {
-        return res.status(StatusCodes.INTERNAL_SERVER_ERROR).json({
-          error: `Unknown error: ${err.message}`
-        });
-      }
-      next();
-    });
-  },
+  authorize("admin", "editor"),
+  handleImageUpload,
+  parseProductMultipart,
+  validateRequest({ params: idParamsSchema, body: productUpdateSchema }),
   tryCatch(async (req: Request, res: Response) => {
-    const id = parseInt(req.params.id);
-    const { 
-      name, 
-      description, 
-      price, 
-      isContactForPrice, 
-      showInHero, 
-      heroIndex, 
+    const id = Number(req.params.id);
+    const {
+      name,
+      description,
+      price,
+      isContactForPrice,
+      currency,
+      priceIsStartingFrom,
+      priceTiers,
       machineData,
-      categoryIds 
-    } = req.body;
+      categoryIds,
+      slug: slugOverride,
+    } = req.body as z.infer<typeof productUpdateSchema>;
 
-    if (isNaN(id)) {
-      res.status(StatusCodes.BAD_REQUEST).json({
-        error: "Invalid product ID format",
-      });
-      return;
-    }
+    const existingProduct = await findActiveProduct(id);
 
-    const existingProduct = await db
-      .select()
-      .from(product)
-      .where(eq(product.id, id))
-      .limit(1);
+    const uploadedImages = getUploadedImages(req);
 
-    if (existingProduct.length === 0) {
-      res.status(StatusCodes.NOT_FOUND).json({
-        error: "Product not found",
-      });
-      return;
+    if (!existingProduct) {
+      throw new NotFoundError("Product not found");
     }
 
-    let parsedMachineData;
+    let updateData: Partial<typeof existingProduct> = {};
+
+    if (name !== undefined) updateData.name = name;
+    if (description !== undefined) updateData.description = description;
+    const pricingInput = { price, currency, isContactForPrice, priceIsStartingFrom, priceTiers };
+    if (hasPricingInput(pricingInput)) {
+      Object.assign(updateData, resolvePricing(pricingInput, existingProduct));
+    }
     if (machineData !== undefined) {
-      try {
-        parsedMachineData = JSON.parse(machineData);
-      } catch (error) {
-        res.status(StatusCodes.BAD_REQUEST).json({
-          error: "Invalid machine data format",
-        });
-        return;
-      }
+      const existingMachineData = existingProduct.machineData || {};
+      updateData.machineData = {
+        ...existingMachineData,
+        ...machineData
+      };
     }
 
-    let parsedCategoryIds: number[] | undefined;
     if (categoryIds !== undefined) {
-      try {
-        parsedCategoryIds = (Array.isArray(categoryIds) ? categoryIds : JSON.parse(categoryIds))
-          .map(Number)
-          .filter((id: number) => !isNaN(id));
-      } catch (error) {
-        res.status(StatusCodes.BAD_REQUEST).json({
-          error: "Invalid category IDs format",
-        });
-        return;
+      const missingCategoryIds = await findMissingCategoryIds(categoryIds);
+      if (missingCategoryIds.length > 0) {
+        throw new BadRequestError(`Unknown category IDs: ${missingCategoryIds.join(", ")}`);
       }
     }
 
-    let updateData: Partial<(typeof existingProduct)[0]> = {};
+    // Specs are checked against the categories the product ends up in
+    if (machineData !== undefined || categoryIds !== undefined) {
+      const finalCategoryIds = categoryIds ?? (await getCategoryIdsForProduct(id));
+      const finalMachineData = updateData.machineData ?? existingProduct.machineData ?? {};
+      const validatedMachineData = await validateMachineData(finalMachineData, finalCategoryIds);
 
-    if (name) updateData.name = name;
-    if (description) updateData.description = description;
-    if (price !== undefined) updateData.price = price;
-    if (isContactForPrice !== undefined) updateData.isContactForPrice = isContactForPrice;
-    if (showInHero !== undefined) updateData.showInHero = showInHero;
-    if (heroIndex !== undefined) updateData.heroIndex = heroIndex;
-    if (parsedMachineData !== undefined || parsedCategoryIds !== undefined) {
-      const existingMachineData = existingProduct[0].machineData || {};
-      updateData.machineData = {
-        ...existingMachineData,
-        ...parsedMachineData,
-        ...(parsedCategoryIds !== undefined && { categories: parsedCategoryIds })
-      };
+      if (updateData.machineData !== undefined) {
+        updateData.machineData = validatedMachineData;
+      }
     }
 
-    const [updatedProduct] = await db
-      .update(product)
-      .set(updateData)
-      .where(eq(product.id, id))
-      .returning();
+    const updatedProduct = await db.transaction(async (tx) => {
+      const before = await getProductSnapshot(id, tx);
+      const previousRevision = await getCurrentRevisionData(existingProduct, tx);
+
+      // Renames get a new slug, the old one keeps redirecting
+      if (slugOverride !== undefined || (updateData.name && updateData.name !== existingProduct.name)) {
+        updateData.slug = await resolveSlugForSave(tx, "product", {
+          name: updateData.name ?? existingProduct.name,
+          slug: slugOverride,
+          id,
+        });
+        await recordSlugChange(tx, "product", id, existingProduct.slug, updateData.slug);
+      }
+
+      const [updated] = Object.keys(updateData).length > 0
+        ? await tx
+            .update(product)
+            .set(updateData)
+            .where(eq(product.id, id))
+            .returning()
+        : [existingProduct];
+
+      if (categoryIds !== undefined) {
+        await setProductCategories(tx, id, categoryIds);
+      }
+
+      await addProductImages(tx, id, uploadedImages);
+
+      // Keep the previous state when a versioned field changed
+      const currentRevision = await getCurrentRevisionData(updated, tx);
+      if (Object.keys(diffRevisionData(previousRevision, currentRevision)).length > 0) {
+        await createProductRevision(tx, id, previousRevision, req.user!.userId);
+      }
+
+      await recordAudit(tx, req, {
+        entityType: "product",
+        entityId: id,
+        action: "update",
+        before,
+        after: await getProductSnapshot(id, tx),
+      });
+
+      const [hydrated] = await hydrateProducts([updated], tx);
+      return hydrated;
+    });
 
     res.status(StatusCodes.OK).json(updatedProduct);
   })
 );
 
+// Moves a product to the trash, it is purged after the retention period
 router.delete(
   "/:id",
+  describeRoute({
+    tags: ["Products"],
+    summary: "Move a product to the trash",
+    responses: { 200: json(SuccessResponse), ...errors(400, 401, 403, 404) },
+  }),
   authenticateToken,
-  validateRequest({ params: productIdSchema }),
+  authorize("admin"),
+  validateRequest({ params: idParamsSchema }),
   tryCatch(async (req: Request, res: Response) => {
     const id = parseInt(req.params.id);
 
-    const foundProduct = await db
-      .select()
-      .from(product)
-      .where(eq(product.id, id))
-      .limit(1);
+    const foundProduct = await findActiveProduct(id);
+
+    if (!foundProduct) {
+      throw new NotFoundError("Product not found");
+    }
+
+    await db.transaction(async (tx) => {
+      const before = await getProductSnapshot(id, tx);
+      await tx.update(product).set({ deletedAt: new Date() }).where(eq(product.id, id));
 
-    if (foundProduct.length === 0) {
-      res.status(StatusCodes.NOT_FOUND).json({
-        error: "Product not found",
+      await recordAudit(tx, req, {
+        entityType: "product",
+        entityId: id,
+        action: "delete",
+        before,
+        after: await getProductSnapshot(id, tx),
       });
-      return;
+    });
+
+    res.status(StatusCodes.OK).json({
+      success: true,
+      message: `Moved '${foundProduct.name}' to the trash`
+    });
+  })
+);
+
+router.post(
+  "/:id/restore",
+  describeRoute({
+    tags: ["Products"],
+    summary: "Restore a product from the trash",
+    responses: { 200: json(Product), ...errors(400, 401, 403, 404, 409) },
+  }),
+  authenticateToken,
+  authorize("admin"),
+  validateRequest({ params: idParamsSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+
+    const restoredProduct = await db.transaction(async (tx) => {
+      const before = await getProductSnapshot(id, tx);
+
+      const [restored] = await tx
+        .update(product)
+        .set({ deletedAt: null })
+        .where(and(eq(product.id, id), isNotNull(product.deletedAt)))
+        .returning();
+
+      if (!restored) {
+        throw new NotFoundError("Product not found in the trash");
+      }
+
+      await recordAudit(tx, req, {
+        entityType: "product",
+        entityId: id,
+        action: "restore",
+        before,
+        after: await getProductSnapshot(id, tx),
+      });
+
+      const [hydrated] = await hydrateProducts([restored], tx);
+      return hydrated;
+    });
+
+    res.status(StatusCodes.OK).json(restoredProduct);
+  })
+);
+
+// Publishes a product right away or at publishAt
+router.post(
+  "/:id/publish",
+  describeRoute({
+    tags: ["Products"],
+    summary: "Publish a product now or at publishAt",
+    responses: { 200: json(Product), ...errors(400, 401, 403, 404) },
+  }),
+  authenticateToken,
+  authorize("admin", "editor"),
+  validateRequest({ params: idParamsSchema, body: productPublishSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    const { publishAt } = req.body as z.infer<typeof productPublishSchema>;
+
+    res.status(StatusCodes.OK).json(
+      await setProductStatus(req, id, { status: "published", publishAt: publishAt ?? null })
+    );
+  })
+);
+
+router.post(
+  "/:id/unpublish",
+  describeRoute({
+    tags: ["Products"],
+    summary: "Move a product back to draft or archive it",
+    responses: { 200: json(Product), ...errors(400, 401, 403, 404) },
+  }),
+  authenticateToken,
+  authorize("admin", "editor"),
+  validateRequest({ params: idParamsSchema, body: productUnpublishSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    const { status } = req.body as z.infer<typeof productUnpublishSchema>;
+
+    res.status(StatusCodes.OK).json(
+      await setProductStatus(req, id, { status, publishAt: null })
+    );
+  })
+);
+
+router.get(
+  "/:id/revisions",
+  describeRoute({
+    tags: ["Product revisions"],
+    summary: "List the revisions of a product",
+    responses: { 200: json(z.array(productRevisionSummarySchema)), ...errors(400, 401, 403, 404) },
+  }),
+  authenticateToken,
+  authorize("admin", "editor"),
+  validateRequest({ params: idParamsSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+
+    if (!(await findActiveProduct(id))) {
+      throw new NotFoundError("Product not found");
+    }
+
+    res.status(StatusCodes.OK).json(await listProductRevisions(id));
+  })
+);
+
+router.get(
+  "/:id/revisions/diff",
+  describeRoute({
+    tags: ["Product revisions"],
+    summary: "Compare two revisions, or a revision with the current state",
+    responses: { 200: json(productRevisionDiffResponseSchema), ...errors(400, 401, 403, 404) },
+  }),
+  authenticateToken,
+  authorize("admin", "editor"),
+  validateRequest({ params: idParamsSchema, query: productRevisionDiffQuerySchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    const { from, to } = req.query as unknown as z.infer<typeof productRevisionDiffQuerySchema>;
+
+    const foundProduct = await findActiveProduct(id);
+    if (!foundProduct) {
+      throw new NotFoundError("Product not found");
+    }
+
+    const fromRevision = await getProductRevision(id, from);
+    if (!fromRevision) {
+      throw new NotFoundError(`Revision ${from} not found`);
+    }
+
+    let toData = await getCurrentRevisionData(foundProduct);
+    if (to !== undefined) {
+      const toRevision = await getProductRevision(id, to);
+      if (!toRevision) {
+        throw new NotFoundError(`Revision ${to} not found`);
+      }
+      toData = toRevision.data;
     }
 
-    const machineData = foundProduct[0].machineData as { images?: string[] } || {};
-    if (machineData.images?.length) {
-      machineData.images.forEach(imageUrl => {
-        try {
-          const imagePath = path.join(
-            process.cwd(),
-            imageUrl.replace(/^\//, '')
-          );
-          if (fs.existsSync(imagePath)) {
-            fs.unlinkSync(imagePath);
-          }
-        } catch (error) {
-          console.error(`Error deleting image: ${imageUrl}`, error);
-        }
+    res.status(StatusCodes.OK).json({
+      from,
+      to: to ?? "current",
+      changes: diffRevisionData(fromRevision.data, toData),
+    });
+  })
+);
+
+router.get(
+  "/:id/revisions/:revision",
+  describeRoute({
+    tags: ["Product revisions"],
+    summary: "Get a revision of a product",
+    responses: { 200: json(productRevisionResponseSchema), ...errors(400, 401, 403, 404) },
+  }),
+  authenticateToken,
+  authorize("admin", "editor"),
+  validateRequest({ params: productRevisionParamsSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    const revision = Number(req.params.revision);
+
+    if (!(await findActiveProduct(id))) {
+      throw new NotFoundError("Product not found");
+    }
+
+    const found = await getProductRevision(id, revision);
+    if (!found) {
+      throw new NotFoundError("Revision not found");
+    }
+
+    res.status(StatusCodes.OK).json(found);
+  })
+);
+
+// Rolls the product back to a revision, the current state becomes a new revision
+router.post(
+  "/:id/revisions/:revision/restore",
+  describeRoute({
+    tags: ["Product revisions"],
+    summary: "Restore a product to a revision",
+    responses: { 200: json(Product), ...errors(400, 401, 403, 404) },
+  }),
+  authenticateToken,
+  authorize("admin", "editor"),
+  validateRequest({ params: productRevisionParamsSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    const revision = Number(req.params.revision);
+
+    const foundProduct = await findActiveProduct(id);
+    if (!foundProduct) {
+      throw new NotFoundError("Product not found");
+    }
+
+    const found = await getProductRevision(id, revision);
+    if (!found) {
+      throw new NotFoundError("Revision not found");
+    }
+
+    // Categories deleted since the revision was taken cannot be restored
+    const missingCategoryIds = await findMissingCategoryIds(found.data.categoryIds);
+    const categoryIds = found.data.categoryIds.filter((categoryId) => !missingCategoryIds.includes(categoryId));
+    const machineData = await validateMachineData(found.data.machineData ?? {}, categoryIds);
+
+    const restoredProduct = await db.transaction(async (tx) => {
+      const before = await getProductSnapshot(id, tx);
+      const previousRevision = await getCurrentRevisionData(foundProduct, tx);
+
+      const [updated] = await tx
+        .update(product)
+        .set({
+          name: found.data.name,
+          description: found.data.description,
+          price: found.data.price,
+          isContactForPrice: found.data.isContactForPrice,
+          // Older revisions predate currencies and tiers
+          currency: found.data.currency ?? foundProduct.currency,
+          priceIsStartingFrom: found.data.priceIsStartingFrom ?? false,
+          priceTiers: found.data.priceTiers ?? [],
+          machineData,
+        })
+        .where(eq(product.id, id))
+        .returning();
+
+      await setProductCategories(tx, id, categoryIds);
+      await createProductRevision(tx, id, previousRevision, req.user!.userId);
+
+      await recordAudit(tx, req, {
+        entityType: "product",
+        entityId: id,
+        action: "update",
+        before,
+        after: await getProductSnapshot(id, tx),
+      });
+
+      const [hydrated] = await hydrateProducts([updated], tx);
+      return hydrated;
+    });
+
+    res.status(StatusCodes.OK).json(restoredProduct);
+  })
+);
+
+router.post(
+  "/:id/images",
+  describeRoute({
+    tags: ["Product images"],
+    summary: "Upload images for a product",
+    request: {
+      body: {
+        content: { "multipart/form-data": { schema: z.object({ images: z.array(binary).min(1).max(10) }) } },
+      },
+    },
+    responses: { 201: json(z.array(ProductImage), "Created"), ...errors(400, 401, 403, 404) },
+  }),
+  authenticateToken,
+  authorize("admin", "editor"),
+  validateRequest({ params: idParamsSchema }),
+  handleImageUpload,
+  tryCatch(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    const uploadedImages = getUploadedImages(req);
+
+    if (uploadedImages.length === 0) {
+      throw new BadRequestError("No images received");
+    }
+
+    if (!(await findActiveProduct(id))) {
+      throw new NotFoundError("Product not found");
+    }
+
+    const images = await db.transaction(async (tx) => {
+      const before = await getProductSnapshot(id, tx);
+      const added = await addProductImages(tx, id, uploadedImages);
+
+      await recordAudit(tx, req, {
+        entityType: "product",
+        entityId: id,
+        action: "update",
+        before,
+        after: await getProductSnapshot(id, tx),
+      });
+
+      return added;
+    });
+
+    res.status(StatusCodes.CREATED).json(await presentImages(images));
+  })
+);
+
+router.put(
+  "/:id/images/order",
+  describeRoute({
+    tags: ["Product images"],
+    summary: "Set the order of the images of a product",
+    responses: { 200: json(z.array(ProductImage)), ...errors(400, 401, 403, 404) },
+  }),
+  authenticateToken,
+  authorize("admin", "editor"),
+  validateRequest({ params: idParamsSchema, body: productImageOrderSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    const { imageIds } = req.body as z.infer<typeof productImageOrderSchema>;
+
+    if (!(await findActiveProduct(id))) {
+      throw new NotFoundError("Product not found");
+    }
+
+    const existingImages = await db
+      .select({ id: productImages.id })
+      .from(productImages)
+      .where(eq(productImages.productId, id));
+
+    const existingIds = new Set(existingImages.map((image) => image.id));
+    const isCompleteOrder =
+      imageIds.length === existingIds.size &&
+      new Set(imageIds).size === imageIds.length &&
+      imageIds.every((imageId) => existingIds.has(imageId));
+
+    if (!isCompleteOrder) {
+      throw new BadRequestError("imageIds must list every image of the product exactly once");
+    }
+
+    const images = await db.transaction(async (tx) => {
+      const before = await getProductSnapshot(id, tx);
+
+      for (const [position, imageId] of imageIds.entries()) {
+        await tx
+          .update(productImages)
+          .set({ position })
+          .where(eq(productImages.id, imageId));
+      }
+
+      await recordAudit(tx, req, {
+        entityType: "product",
+        entityId: id,
+        action: "update",
+        before,
+        after: await getProductSnapshot(id, tx),
       });
+
+      return tx
+        .select()
+        .from(productImages)
+        .where(eq(productImages.productId, id))
+        .orderBy(asc(productImages.position));
+    });
+
+    res.status(StatusCodes.OK).json(await presentImages(images));
+  })
+);
+
+router.put(
+  "/:id/images/:imageId/primary",
+  describeRoute({
+    tags: ["Product images"],
+    summary: "Make an image the primary image of a product",
+    responses: { 200: json(ProductImage), ...errors(400, 401, 403, 404) },
+  }),
+  authenticateToken,
+  authorize("admin", "editor"),
+  validateRequest({ params: productImageParamsSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    const imageId = Number(req.params.imageId);
+
+    const image = await findProductImage(id, imageId);
+    if (!image) {
+      throw new NotFoundError("Image not found");
     }
 
-    await db.delete(product).where(eq(product.id, id));
+    const primaryImage = await db.transaction(async (tx) => {
+      const before = await getProductSnapshot(id, tx);
+
+      await tx
+        .update(productImages)
+        .set({ isPrimary: false })
+        .where(eq(productImages.productId, id));
+
+      const [updated] = await tx
+        .update(productImages)
+        .set({ isPrimary: true })
+        .where(eq(productImages.id, imageId))
+        .returning();
+
+      await recordAudit(tx, req, {
+        entityType: "product",
+        entityId: id,
+        action: "update",
+        before,
+        after: await getProductSnapshot(id, tx),
+      });
+
+      return updated;
+    });
+
+    const [presentedImage] = await presentImages([primaryImage]);
+
+    res.status(StatusCodes.OK).json(presentedImage);
+  })
+);
+
+router.delete(
+  "/:id/images/:imageId",
+  describeRoute({
+    tags: ["Product images"],
+    summary: "Delete an image of a product",
+    responses: { 200: json(SuccessResponse), ...errors(400, 401, 403, 404) },
+  }),
+  authenticateToken,
+  authorize("admin", "editor"),
+  validateRequest({ params: productImageParamsSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    const imageId = Number(req.params.imageId);
+
+    const image = await findProductImage(id, imageId);
+    if (!image) {
+      throw new NotFoundError("Image not found");
+    }
+
+    await db.transaction(async (tx) => {
+      const before = await getProductSnapshot(id, tx);
+
+      await tx.delete(productImages).where(eq(productImages.id, imageId));
+      await ensurePrimaryImage(tx, id);
+
+      await recordAudit(tx, req, {
+        entityType: "product",
+        entityId: id,
+        action: "update",
+        before,
+        after: await getProductSnapshot(id, tx),
+      });
+    });
+
+    await deleteStoredFiles(getImageFiles(image));
 
     res.status(StatusCodes.OK).json({
       success: true,
-      message: `Successfully deleted '${foundProduct[0].name}'`
+      message: "Image deleted",
     });
   })
 );
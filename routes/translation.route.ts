@@ -0,0 +1,338 @@
+import { Router } from "express";
+import { StatusCodes } from "http-status-codes";
+import { z } from "zod";
+import { and, eq, isNull } from "drizzle-orm";
+import { type NextFunction, type Request, type Response } from "express";
+import { db } from "../db";
+import { category, categoryTranslations, product, productTranslations } from "../db/schema";
+import { tryCatch } from "../errorHandlers";
+import { NotFoundError } from "../errors";
+import { validateRequest } from "../middlewares/validate.middleware";
+import { authenticateToken, authorize } from "../middlewares/auth.middleware";
+import { recordAudit } from "../services/audit.service";
+import {
+  DEFAULT_LOCALE,
+  TRANSLATION_LOCALES,
+  findMissingTranslations,
+  listCategoryTranslations,
+  listProductTranslations,
+} from "../services/translation.service";
+import { idParamsSchema } from "../schemas/common.schema";
+import {
+  categoryTranslationSchema,
+  missingTranslationsQuerySchema,
+  missingTranslationsResponseSchema,
+  productTranslationSchema,
+  translationListResponseSchema,
+  translationParamsSchema,
+} from "../schemas/translation.schema";
+import {
+  CategoryTranslation,
+  ProductTranslation,
+  SuccessResponse,
+  describeRoute,
+  errors,
+  json,
+} from "../services/openapi.service";
+
+type TranslationParams = z.infer<typeof translationParamsSchema>;
+
+const assertActiveProduct = async (id: number) => {
+  const [found] = await db
+    .select({ id: product.id })
+    .from(product)
+    .where(and(eq(product.id, id), isNull(product.deletedAt)))
+    .limit(1);
+
+  if (!found) {
+    throw new NotFoundError("Product not found");
+  }
+};
+
+const assertActiveCategory = async (id: number) => {
+  const [found] = await db
+    .select({ id: category.id })
+    .from(category)
+    .where(and(eq(category.id, id), isNull(category.deletedAt)))
+    .limit(1);
+
+  if (!found) {
+    throw new NotFoundError("Category not found");
+  }
+};
+
+// Translations are audited as part of the product or category they belong to
+const toAuditSnapshot = (locale: string, row: Record<string, unknown> | undefined) => {
+  if (!row) return {};
+  const { id, updatedAt, productId, categoryId, locale: _, ...fields } = row;
+  return { [`translations.${locale}`]: fields };
+};
+
+// The routers are mounted before the resource routers, so slugs like
+// /products/slug/translations are passed on to them
+const numericOwnerOnly = (req: Request, _: Response, next: NextFunction) => {
+  if (/^\d+$/.test(req.params.id)) {
+    next();
+  } else {
+    next("router");
+  }
+};
+
+// Mounted under /products/:id/translations
+const productTranslationsRouter = Router({ mergeParams: true });
+
+productTranslationsRouter.use(numericOwnerOnly, authenticateToken, authorize("admin", "editor"));
+
+productTranslationsRouter.get(
+  "/",
+  describeRoute({
+    tags: ["Translations"],
+    summary: "List the translations of a product",
+    responses: { 200: json(translationListResponseSchema(ProductTranslation)), ...errors(400, 401, 403, 404) },
+  }),
+  validateRequest({ params: idParamsSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    await assertActiveProduct(id);
+
+    res.status(StatusCodes.OK).json({
+      defaultLocale: DEFAULT_LOCALE,
+      locales: TRANSLATION_LOCALES,
+      translations: await listProductTranslations(id),
+    });
+  })
+);
+
+productTranslationsRouter.put(
+  "/:locale",
+  describeRoute({
+    tags: ["Translations"],
+    summary: "Create or update a product translation",
+    responses: { 200: json(ProductTranslation), ...errors(400, 401, 403, 404) },
+  }),
+  validateRequest({ params: translationParamsSchema, body: productTranslationSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const { id, locale } = req.params as unknown as TranslationParams;
+    const body = req.body as z.infer<typeof productTranslationSchema>;
+    await assertActiveProduct(id);
+
+    const saved = await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(productTranslations)
+        .where(and(eq(productTranslations.productId, id), eq(productTranslations.locale, locale)))
+        .limit(1);
+
+      // Fields that are not sent keep their translation
+      const values = {
+        name: body.name !== undefined ? body.name : existing?.name ?? null,
+        description: body.description !== undefined ? body.description : existing?.description ?? null,
+        machineDataLabels: body.machineDataLabels ?? existing?.machineDataLabels ?? {},
+        updatedAt: new Date(),
+      };
+
+      const [row] = await tx
+        .insert(productTranslations)
+        .values({ productId: id, locale, ...values })
+        .onConflictDoUpdate({
+          target: [productTranslations.productId, productTranslations.locale],
+          set: values,
+        })
+        .returning();
+
+      await recordAudit(tx, req, {
+        entityType: "product",
+        entityId: id,
+        action: "update",
+        before: toAuditSnapshot(locale, existing),
+        after: toAuditSnapshot(locale, row),
+      });
+
+      return row;
+    });
+
+    res.status(StatusCodes.OK).json(saved);
+  })
+);
+
+productTranslationsRouter.delete(
+  "/:locale",
+  describeRoute({
+    tags: ["Translations"],
+    summary: "Delete a product translation",
+    responses: { 200: json(SuccessResponse), ...errors(400, 401, 403, 404) },
+  }),
+  validateRequest({ params: translationParamsSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const { id, locale } = req.params as unknown as TranslationParams;
+    await assertActiveProduct(id);
+
+    await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(productTranslations)
+        .where(and(eq(productTranslations.productId, id), eq(productTranslations.locale, locale)))
+        .returning();
+
+      if (!deleted) {
+        throw new NotFoundError("Translation not found");
+      }
+
+      await recordAudit(tx, req, {
+        entityType: "product",
+        entityId: id,
+        action: "update",
+        before: toAuditSnapshot(locale, deleted),
+        after: {},
+      });
+    });
+
+    res.status(StatusCodes.OK).json({
+      success: true,
+      message: `Deleted the ${locale} translation`
+    });
+  })
+);
+
+// Mounted under /categories/:id/translations
+const categoryTranslationsRouter = Router({ mergeParams: true });
+
+categoryTranslationsRouter.use(numericOwnerOnly, authenticateToken, authorize("admin", "editor"));
+
+categoryTranslationsRouter.get(
+  "/",
+  describeRoute({
+    tags: ["Translations"],
+    summary: "List the translations of a category",
+    responses: { 200: json(translationListResponseSchema(CategoryTranslation)), ...errors(400, 401, 403, 404) },
+  }),
+  validateRequest({ params: idParamsSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const id = Number(req.params.id);
+    await assertActiveCategory(id);
+
+    res.status(StatusCodes.OK).json({
+      defaultLocale: DEFAULT_LOCALE,
+      locales: TRANSLATION_LOCALES,
+      translations: await listCategoryTranslations(id),
+    });
+  })
+);
+
+categoryTranslationsRouter.put(
+  "/:locale",
+  describeRoute({
+    tags: ["Translations"],
+    summary: "Create or update a category translation",
+    responses: { 200: json(CategoryTranslation), ...errors(400, 401, 403, 404) },
+  }),
+  validateRequest({ params: translationParamsSchema, body: categoryTranslationSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const { id, locale } = req.params as unknown as TranslationParams;
+    const body = req.body as z.infer<typeof categoryTranslationSchema>;
+    await assertActiveCategory(id);
+
+    const saved = await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(categoryTranslations)
+        .where(and(eq(categoryTranslations.categoryId, id), eq(categoryTranslations.locale, locale)))
+        .limit(1);
+
+      const values = {
+        name: body.name !== undefined ? body.name : existing?.name ?? null,
+        description: body.description !== undefined ? body.description : existing?.description ?? null,
+        updatedAt: new Date(),
+      };
+
+      const [row] = await tx
+        .insert(categoryTranslations)
+        .values({ categoryId: id, locale, ...values })
+        .onConflictDoUpdate({
+          target: [categoryTranslations.categoryId, categoryTranslations.locale],
+          set: values,
+        })
+        .returning();
+
+      await recordAudit(tx, req, {
+        entityType: "category",
+        entityId: id,
+        action: "update",
+        before: toAuditSnapshot(locale, existing),
+        after: toAuditSnapshot(locale, row),
+      });
+
+      return row;
+    });
+
+    res.status(StatusCodes.OK).json(saved);
+  })
+);
+
+categoryTranslationsRouter.delete(
+  "/:locale",
+  describeRoute({
+    tags: ["Translations"],
+    summary: "Delete a category translation",
+    responses: { 200: json(SuccessResponse), ...errors(400, 401, 403, 404) },
+  }),
+  validateRequest({ params: translationParamsSchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const { id, locale } = req.params as unknown as TranslationParams;
+    await assertActiveCategory(id);
+
+    await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(categoryTranslations)
+        .where(and(eq(categoryTranslations.categoryId, id), eq(categoryTranslations.locale, locale)))
+        .returning();
+
+      if (!deleted) {
+        throw new NotFoundError("Translation not found");
+      }
+
+      await recordAudit(tx, req, {
+        entityType: "category",
+        entityId: id,
+        action: "update",
+        before: toAuditSnapshot(locale, deleted),
+        after: {},
+      });
+    });
+
+    res.status(StatusCodes.OK).json({
+      success: true,
+      message: `Deleted the ${locale} translation`
+    });
+  })
+);
+
+const translationsRouter = Router();
+
+translationsRouter.use(authenticateToken, authorize("admin", "editor"));
+
+// Products and categories with missing or incomplete translations
+translationsRouter.get(
+  "/missing",
+  describeRoute({
+    tags: ["Translations"],
+    summary: "List products and categories with missing translations",
+    responses: { 200: json(missingTranslationsResponseSchema), ...errors(400, 401, 403) },
+  }),
+  validateRequest({ query: missingTranslationsQuerySchema }),
+  tryCatch(async (req: Request, res: Response) => {
+    const { locale, entityType } = req.query as unknown as z.infer<typeof missingTranslationsQuerySchema>;
+    const locales = locale ? [locale] : TRANSLATION_LOCALES;
+
+    const missing = await findMissingTranslations({ locales, entityType });
+
+    res.status(StatusCodes.OK).json({
+      defaultLocale: DEFAULT_LOCALE,
+      summary: Object.fromEntries(
+        locales.map((item) => [item, missing.filter((entry) => entry.locale === item).length])
+      ),
+      data: missing,
+    });
+  })
+);
+
+export { productTranslationsRouter, categoryTranslationsRouter, translationsRouter };
@@ -0,0 +1,49 @@
+import { Router } from "express";
+import { StatusCodes } from "http-status-codes";
+import { z } from "zod";
+import { type Request, type Response } from "express";
+import { tryCatch } from "../errorHandlers";
+import { BadRequestError } from "../errors";
+import { authenticateToken, authorize } from "../middlewares/auth.middleware";
+import { uploadImages } from "../middlewares/image.middleware";
+import { resolveUrl, resolveUrls } from "../services/storage";
+import { binary, describeRoute, errors, json } from "../services/openapi.service";
+
+const router = Router();
+
+router.post(
+  "/categories",
+  describeRoute({
+    tags: ["Uploads"],
+    summary: "Upload a category image",
+    request: { body: { content: { "multipart/form-data": { schema: z.object({ image: binary }) } } } },
+    responses: {
+      200: json(
+        z.object({
+          success: z.literal(true),
+          fileUrl: z.string(),
+          variants: z.record(z.string()).nullable(),
+        })
+      ),
+      ...errors(400, 401, 403),
+    },
+  }),
+  authenticateToken,
+  authorize("admin", "editor"),
+  uploadImages({ field: 'image', maxCount: 1, folder: 'categories' }),
+  tryCatch(async (req: Request, res: Response) => {
+    const [image] = req.processedImages ?? [];
+    if (!image) {
+      throw new BadRequestError("No file received");
+    }
+
+    // Send the URL to frontend
+    res.status(StatusCodes.OK).json({ 
+      success: true, 
+      fileUrl: await resolveUrl(image.url),
+      variants: await resolveUrls(image.variants)
+    });
+  })
+);
+
+export { router as uploadRouter };
@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { AUDIT_ACTIONS, AUDIT_ENTITIES } from "../db/schema";
+
+export const auditLogQuerySchema = z.object({
+  entityType: z.enum(AUDIT_ENTITIES).optional(),
+  entityId: z.coerce.number().int().positive().optional(),
+  userId: z.coerce.number().int().positive().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
+
+// Responses
+
+export const auditLogEntrySchema = z.object({
+  id: z.number().int(),
+  userId: z.number().int().nullable(),
+  username: z.string().nullable(),
+  entityType: z.enum(AUDIT_ENTITIES),
+  entityId: z.number().int(),
+  action: z.enum(AUDIT_ACTIONS),
+  changes: z.record(z.object({ before: z.unknown(), after: z.unknown() })),
+  requestId: z.string().nullable(),
+  createdAt: z.string().datetime(),
+});
@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { USER_ROLES } from "../db/schema";
+
+const usernameSchema = z.string().min(3, "Username must be at least 3 characters").max(100);
+const passwordSchema = z.string().min(6, "Password must be at least 6 characters");
+const emailSchema = z.string().trim().email("Invalid email address").max(255);
+
+export const loginSchema = z.object({
+  username: usernameSchema,
+  password: passwordSchema,
+});
+
+export const createUserSchema = z.object({
+  username: usernameSchema,
+  password: passwordSchema,
+  email: emailSchema.optional(),
+  role: z.enum(USER_ROLES).default("viewer"),
+});
+
+export const updateUserSchema = z.object({
+  username: usernameSchema.optional(),
+  email: emailSchema.nullable().optional(),
+  role: z.enum(USER_ROLES).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const resetPasswordSchema = z.object({
+  password: passwordSchema,
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, "Refresh token is required"),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: passwordSchema,
+});
+
+// Responses
+
+export const userResponseSchema = z.object({
+  id: z.number().int(),
+  username: z.string(),
+  email: z.string().nullable(),
+  role: z.enum(USER_ROLES),
+  isActive: z.boolean(),
+  createdAt: z.string().datetime().nullable(),
+});
+
+export const sessionResponseSchema = z.object({
+  token: z.string(),
+  refreshToken: z.string(),
+  refreshTokenExpiresAt: z.string().datetime(),
+  user: z.object({
+    id: z.number().int(),
+    username: z.string(),
+    role: z.enum(USER_ROLES),
+  }),
+});
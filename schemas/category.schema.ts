@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { slugSchema } from "../services/slug.service";
+import { specTemplateSchema } from "../services/spec-template.service";
+import { currencyQuerySchema } from "../services/pricing.service";
+
+const categoryBaseSchema = {
+  name: z.string().min(3, "Name must be at least 3 characters").max(100),
+  description: z.string().min(10, "Description must be at least 10 characters").max(300),
+  slug: slugSchema.optional(),
+  specTemplate: specTemplateSchema.optional(),
+};
+
+// Documents the body of POST /categories; multipart forms send specTemplate
+// as a JSON string and the file as `image`
+export const categoryCreateSchema = z.object({
+  ...categoryBaseSchema,
+  parentId: z.number().int().positive().nullable().optional(),
+});
+
+export const categoryUpdateSchema = z.object(categoryBaseSchema).partial();
+
+// What happens to the product links of a deleted category. Detached links
+// come back when the category is restored.
+export const categoryDeleteQuerySchema = z.object({
+  strategy: z.enum(["block", "detach", "reassign"]).default("block"),
+  reassignTo: z.coerce.number().int().positive().optional(),
+});
+
+export type CategoryDeleteQuery = z.infer<typeof categoryDeleteQuerySchema>;
+
+// A parentId of null moves the category to the root level
+export const categoryMoveSchema = z.object({
+  parentId: z.number().int().positive().nullable(),
+  position: z.number().int().min(0).optional(),
+});
+
+export const categoryOrderSchema = z.object({
+  parentId: z.number().int().positive().nullable(),
+  categoryIds: z.array(z.number().int().positive()).min(1),
+});
+
+export const categoryProductsQuerySchema = currencyQuerySchema.extend({
+  includeDescendants: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
+
+export const specTemplateQuerySchema = z.object({
+  ids: z
+    .string()
+    .regex(/^\d+(,\d+)*$/, "ids must be a comma separated list of category IDs")
+    .transform((ids) => ids.split(",").map(Number)),
+});
+
+// Responses
+
+export const categoryResponseSchema = z.object({
+  id: z.number().int(),
+  parentId: z.number().int().nullable(),
+  position: z.number().int(),
+  name: z.string(),
+  slug: z.string().nullable(),
+  description: z.string(),
+  imageUrl: z.string().nullable(),
+  imageVariants: z.record(z.string()).nullable(),
+  specTemplate: specTemplateSchema,
+  deletedAt: z.string().datetime().nullable(),
+  // Locale the name was taken from, on public reads
+  locale: z.string().optional(),
+});
+
+export const breadcrumbSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  slug: z.string().nullable(),
+});
+
+export const categoryDetailResponseSchema = categoryResponseSchema.extend({
+  breadcrumbs: z.array(breadcrumbSchema),
+});
+
+export const specTemplateResponseSchema = z.object({
+  categoryId: z.number().int(),
+  fields: specTemplateSchema,
+});
+
+export const mergedSpecTemplateResponseSchema = z.object({
+  categoryIds: z.array(z.number().int()),
+  fields: specTemplateSchema,
+});
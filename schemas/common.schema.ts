@@ -0,0 +1,43 @@
+import { z } from "zod";
+
+export const numericIdParam = z.string().regex(/^\d+$/).transform(Number);
+
+export const idParamsSchema = z.object({
+  id: numericIdParam,
+});
+
+// Query strings only carry strings
+export const booleanQuery = z.enum(["true", "false"]).transform((value) => value === "true");
+
+export const paginationQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+// Responses
+
+export const errorResponseSchema = z.object({
+  error: z.string(),
+  code: z.string(),
+  details: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+  retryAfter: z.number().int().optional(),
+  requestId: z.string(),
+});
+
+export const successResponseSchema = z.object({
+  success: z.literal(true),
+  message: z.string(),
+});
+
+export const paginationSchema = z.object({
+  page: z.number().int(),
+  limit: z.number().int(),
+  total: z.number().int(),
+  totalPages: z.number().int(),
+});
+
+export const paginated = <T extends z.ZodTypeAny>(item: T) =>
+  z.object({
+    data: z.array(item),
+    pagination: paginationSchema,
+  });
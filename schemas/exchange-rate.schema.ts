@@ -0,0 +1,23 @@
+import { z } from "zod";
+import { currencySchema } from "../services/pricing.service";
+
+export const exchangeRateParamsSchema = z.object({
+  currency: currencySchema,
+});
+
+export const exchangeRateSchema = z.object({
+  rate: z.coerce.number().positive("Rate must be greater than 0"),
+});
+
+// Responses
+
+export const exchangeRateResponseSchema = z.object({
+  currency: z.string(),
+  rate: z.string(),
+  updatedAt: z.string().datetime(),
+});
+
+export const exchangeRateListResponseSchema = z.object({
+  baseCurrency: z.string(),
+  rates: z.array(exchangeRateResponseSchema),
+});
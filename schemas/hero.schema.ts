@@ -0,0 +1,34 @@
+import { z } from "zod";
+import { productResponseSchema } from "./product.schema";
+
+export const heroSlotSchema = z
+  .object({
+    productId: z.number().int().positive(),
+    startsAt: z.coerce.date().nullish(),
+    endsAt: z.coerce.date().nullish(),
+  })
+  .refine((slot) => !slot.startsAt || !slot.endsAt || slot.startsAt < slot.endsAt, {
+    message: "endsAt must be after startsAt",
+    path: ["endsAt"],
+  });
+
+export const heroOrderSchema = z.object({
+  slots: z
+    .array(heroSlotSchema)
+    .max(50)
+    .refine(
+      (slots) => new Set(slots.map((slot) => slot.productId)).size === slots.length,
+      "A product can only appear once in the carousel"
+    ),
+});
+
+// Responses
+
+export const heroSlotResponseSchema = z.object({
+  productId: z.number().int(),
+  position: z.number().int(),
+  startsAt: z.string().datetime().nullable(),
+  endsAt: z.string().datetime().nullable(),
+  status: z.enum(["scheduled", "active", "expired"]),
+  product: productResponseSchema,
+});
@@ -0,0 +1,58 @@
+import { z } from "zod";
+import { INQUIRY_STATUSES } from "../db/schema";
+
+export const inquirySchema = z.object({
+  name: z.string().trim().min(2, "Name must be at least 2 characters").max(100),
+  company: z.string().trim().max(150).optional(),
+  email: z.string().trim().email("Invalid email address").max(255),
+  phone: z
+    .string()
+    .trim()
+    .regex(/^\+?[\d\s()./-]{6,40}$/, "Invalid phone number")
+    .optional(),
+  quantity: z.coerce.number().int().min(1).max(100000).default(1),
+  message: z.string().trim().min(10, "Message must be at least 10 characters").max(5000),
+  // Honeypot: hidden in the form, only bots fill it in
+  website: z.string().optional(),
+});
+
+export const inquiryListQuerySchema = z.object({
+  status: z.enum(INQUIRY_STATUSES).optional(),
+  productId: z.coerce.number().int().positive().optional(),
+  assignedTo: z.coerce.number().int().positive().optional(),
+  q: z.string().trim().min(1).max(200).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type InquiryListQuery = z.infer<typeof inquiryListQuerySchema>;
+
+export const inquiryStatusSchema = z.object({
+  status: z.enum(INQUIRY_STATUSES),
+});
+
+export const inquiryAssignSchema = z.object({
+  userId: z.number().int().positive().nullable(),
+});
+
+// Responses
+
+export const inquiryResponseSchema = z.object({
+  id: z.number().int(),
+  productId: z.number().int().nullable(),
+  name: z.string(),
+  company: z.string().nullable(),
+  email: z.string(),
+  phone: z.string().nullable(),
+  quantity: z.number().int(),
+  message: z.string(),
+  status: z.enum(INQUIRY_STATUSES),
+  assignedTo: z.number().int().nullable(),
+  ipAddress: z.string().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export const inquiryListItemSchema = inquiryResponseSchema.extend({
+  product: z.object({ id: z.number().int(), name: z.string() }).nullable(),
+});
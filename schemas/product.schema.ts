@@ -0,0 +1,202 @@
+import { z } from "zod";
+import { PRODUCT_STATUSES } from "../db/schema";
+import { currencySchema, priceSchema, priceTiersInputSchema, priceTierSchema } from "../services/pricing.service";
+import { slugSchema } from "../services/slug.service";
+import { IMPORT_MATCH_FIELDS } from "../services/product-import.service";
+import { SPREADSHEET_FORMATS } from "../services/spreadsheet.service";
+import { booleanQuery, numericIdParam } from "./common.schema";
+import { categoryResponseSchema } from "./category.schema";
+
+const productBaseSchema = {
+  name: z.string().min(3, "Name must be at least 3 characters").max(100),
+  description: z.string().min(10, "Description must be at least 10 characters"),
+  slug: slugSchema.optional(),
+  price: priceSchema.nullable().optional(),
+  currency: currencySchema.optional(),
+  isContactForPrice: z.boolean().optional(),
+  priceIsStartingFrom: z.boolean().optional(),
+  priceTiers: priceTiersInputSchema.optional(),
+  machineData: z.record(z.unknown()).optional(),
+  categoryIds: z.array(z.coerce.number().int().positive()).optional(),
+};
+
+// Documents the body of POST /products; multipart forms send machineData,
+// categoryIds and priceTiers as JSON strings and the files as `images`.
+// showInHero and heroIndex are set through PUT /hero only.
+export const productCreateSchema = z.object({
+  ...productBaseSchema,
+  status: z.enum(PRODUCT_STATUSES).default("draft"),
+});
+
+// PUT /products/:id merges machineData into the stored one
+export const productUpdateSchema = z.object(productBaseSchema).partial();
+
+export const productImageParamsSchema = z.object({
+  id: numericIdParam,
+  imageId: numericIdParam,
+});
+
+export const productRevisionParamsSchema = z.object({
+  id: numericIdParam,
+  revision: numericIdParam,
+});
+
+// Without `to` the revision is compared with the current state
+export const productRevisionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().positive(),
+  to: z.coerce.number().int().positive().optional(),
+});
+
+export const productPublishSchema = z.object({
+  publishAt: z.coerce.date().optional(),
+});
+
+export const productUnpublishSchema = z.object({
+  status: z.enum(["draft", "archived"]).default("draft"),
+});
+
+export const productImageOrderSchema = z.object({
+  imageIds: z.array(z.number().int().positive()).min(1),
+});
+
+export const productListQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200).optional(),
+  categoryId: z.coerce.number().int().positive().optional(),
+  minPrice: z.coerce.number().nonnegative().optional(),
+  maxPrice: z.coerce.number().nonnegative().optional(),
+  isContactForPrice: booleanQuery.optional(),
+  showInHero: booleanQuery.optional(),
+  // Adds convertedPrice; minPrice, maxPrice and sort=price use amounts in this
+  // currency (BASE_CURRENCY without one), converted through the exchange rates
+  currency: currencySchema.optional(),
+  // Only signed in users see other statuses than published
+  status: z.enum(PRODUCT_STATUSES).optional(),
+  sort: z.enum(["id", "name", "price"]).default("id"),
+  order: z.enum(["asc", "desc"]).default("asc"),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type ProductListQuery = z.infer<typeof productListQuerySchema>;
+
+export const productImportQuerySchema = z.object({
+  dryRun: booleanQuery.default("false"),
+  matchBy: z.enum(IMPORT_MATCH_FIELDS).default("slug"),
+});
+
+// Maps spreadsheet column names onto import fields, e.g. { "Leistung": "machineData.power" }
+export const productImportMappingSchema = z.record(z.string(), z.string());
+
+export const productExportQuerySchema = z.object({
+  format: z.enum(SPREADSHEET_FORMATS).default("csv"),
+});
+
+export const productCompareQuerySchema = z.object({
+  ids: z
+    .string()
+    .regex(/^\d+(,\d+)*$/, "ids must be a comma separated list of product IDs")
+    .transform((ids) => [...new Set(ids.split(",").map(Number))])
+    .refine((ids) => ids.length >= 2 && ids.length <= 10, "Compare between 2 and 10 products"),
+  currency: currencySchema.optional(),
+});
+
+// Responses
+
+export const productImageResponseSchema = z.object({
+  id: z.number().int(),
+  productId: z.number().int(),
+  url: z.string(),
+  variants: z.record(z.string()).nullable(),
+  position: z.number().int(),
+  isPrimary: z.boolean(),
+  createdAt: z.string().datetime().nullable(),
+});
+
+export const productResponseSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  slug: z.string().nullable(),
+  description: z.string(),
+  price: z.string().nullable(),
+  currency: z.string(),
+  priceIsStartingFrom: z.boolean(),
+  priceTiers: z.array(priceTierSchema),
+  isContactForPrice: z.boolean().nullable(),
+  machineData: z.record(z.unknown()),
+  showInHero: z.boolean(),
+  heroIndex: z.number().int(),
+  heroStartsAt: z.string().datetime().nullable(),
+  heroEndsAt: z.string().datetime().nullable(),
+  status: z.enum(PRODUCT_STATUSES),
+  publishAt: z.string().datetime().nullable(),
+  deletedAt: z.string().datetime().nullable(),
+  categories: z.array(categoryResponseSchema),
+  images: z.array(productImageResponseSchema),
+  // Public reads only
+  locale: z.string().optional(),
+  machineDataLabels: z.record(z.string()).optional(),
+  // With ?currency= only, null when no exchange rate is known for the product currency
+  convertedPrice: z
+    .object({
+      currency: z.string(),
+      rate: z.number(),
+      price: z.string().nullable(),
+      priceTiers: z.array(priceTierSchema),
+    })
+    .nullable()
+    .optional(),
+});
+
+export const productRevisionSummarySchema = z.object({
+  revision: z.number().int(),
+  createdAt: z.string().datetime(),
+  createdBy: z.object({ id: z.number().int(), username: z.string() }).nullable(),
+});
+
+export const productRevisionResponseSchema = z.object({
+  id: z.number().int(),
+  productId: z.number().int(),
+  revision: z.number().int(),
+  data: z.record(z.unknown()),
+  createdBy: z.number().int().nullable(),
+  createdAt: z.string().datetime(),
+});
+
+export const productRevisionDiffResponseSchema = z.object({
+  from: z.number().int(),
+  to: z.union([z.number().int(), z.literal("current")]),
+  changes: z.record(z.object({ before: z.unknown(), after: z.unknown() })),
+});
+
+export const productCompareResponseSchema = z.object({
+  products: z.array(productResponseSchema),
+  attributes: z.array(
+    z.object({
+      key: z.string(),
+      label: z.string(),
+      unit: z.string().nullable(),
+      values: z.array(z.object({ productId: z.number().int(), raw: z.unknown(), value: z.unknown() })),
+      differs: z.boolean(),
+    })
+  ),
+});
+
+export const productImportResponseSchema = z.object({
+  dryRun: z.boolean(),
+  matchBy: z.enum(IMPORT_MATCH_FIELDS),
+  ignoredColumns: z.array(z.string()),
+  summary: z.object({
+    total: z.number().int(),
+    create: z.number().int(),
+    update: z.number().int(),
+    failed: z.number().int(),
+  }),
+  rows: z.array(
+    z.object({
+      row: z.number().int(),
+      action: z.enum(["create", "update"]),
+      name: z.string().nullable(),
+      errors: z.array(z.object({ path: z.string(), message: z.string() })),
+    })
+  ),
+});
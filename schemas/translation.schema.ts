@@ -0,0 +1,67 @@
+import { z } from "zod";
+import { TRANSLATION_ENTITIES, translationLocaleSchema } from "../services/translation.service";
+import { numericIdParam } from "./common.schema";
+
+// Fields left out keep their translation, null removes it
+export const productTranslationSchema = z.object({
+  name: z.string().min(3, "Name must be at least 3 characters").max(100).nullish(),
+  description: z.string().min(10, "Description must be at least 10 characters").nullish(),
+  machineDataLabels: z.record(z.string().max(50), z.string().min(1).max(100)).optional(),
+});
+
+export const categoryTranslationSchema = z.object({
+  name: z.string().min(1).max(100).nullish(),
+  description: z.string().max(300).nullish(),
+});
+
+export const translationParamsSchema = z.object({
+  id: numericIdParam,
+  locale: translationLocaleSchema,
+});
+
+export const missingTranslationsQuerySchema = z.object({
+  locale: translationLocaleSchema.optional(),
+  entityType: z.enum(TRANSLATION_ENTITIES).optional(),
+});
+
+// Responses
+
+export const productTranslationResponseSchema = z.object({
+  id: z.number().int(),
+  productId: z.number().int(),
+  locale: z.string(),
+  name: z.string().nullable(),
+  description: z.string().nullable(),
+  machineDataLabels: z.record(z.string()),
+  updatedAt: z.string().datetime(),
+});
+
+export const categoryTranslationResponseSchema = z.object({
+  id: z.number().int(),
+  categoryId: z.number().int(),
+  locale: z.string(),
+  name: z.string().nullable(),
+  description: z.string().nullable(),
+  updatedAt: z.string().datetime(),
+});
+
+export const translationListResponseSchema = <T extends z.ZodTypeAny>(item: T) =>
+  z.object({
+    defaultLocale: z.string(),
+    locales: z.array(z.string()),
+    translations: z.array(item),
+  });
+
+export const missingTranslationsResponseSchema = z.object({
+  defaultLocale: z.string(),
+  summary: z.record(z.number().int()),
+  data: z.array(
+    z.object({
+      entityType: z.enum(TRANSLATION_ENTITIES),
+      id: z.number().int(),
+      name: z.string(),
+      locale: z.string(),
+      missing: z.array(z.string()),
+    })
+  ),
+});
@@ -0,0 +1,45 @@
+import { asc, eq, isNull } from "drizzle-orm";
+import { db } from "../db";
+import { category, product } from "../db/schema";
+import { generateUniqueSlug } from "../services/slug.service";
+
+/**
+ * One-time migration that generates slugs for products and categories
+ * created before slugs existed. Safe to run more than once.
+ */
+const backfill = async () => {
+  const products = await db
+    .select({ id: product.id, name: product.name })
+    .from(product)
+    .where(isNull(product.slug))
+    .orderBy(asc(product.id));
+
+  for (const prod of products) {
+    await db.transaction(async (tx) => {
+      const slug = await generateUniqueSlug(tx, "product", prod.name, prod.id);
+      await tx.update(product).set({ slug }).where(eq(product.id, prod.id));
+    });
+  }
+
+  const categories = await db
+    .select({ id: category.id, name: category.name })
+    .from(category)
+    .where(isNull(category.slug))
+    .orderBy(asc(category.id));
+
+  for (const cat of categories) {
+    await db.transaction(async (tx) => {
+      const slug = await generateUniqueSlug(tx, "category", cat.name, cat.id);
+      await tx.update(category).set({ slug }).where(eq(category.id, cat.id));
+    });
+  }
+
+  console.log(`Generated slugs for ${products.length} product(s) and ${categories.length} category(s)`);
+};
+
+backfill()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Backfill failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,66 @@
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { category, product, productCategory } from "../db/schema";
+
+/**
+ * One-time migration that moves the legacy `machineData.categories` arrays
+ * into the product_category join table and strips them from machineData.
+ * Safe to run more than once.
+ */
+const migrate = async () => {
+  const products = await db.select().from(product);
+  const existingCategoryIds = new Set(
+    (await db.select({ id: category.id }).from(category)).map((row) => row.id)
+  );
+
+  let migratedProducts = 0;
+  let createdLinks = 0;
+  const skippedIds = new Set<number>();
+
+  for (const prod of products) {
+    const machineData = (prod.machineData ?? {}) as Record<string, unknown>;
+    if (!Array.isArray(machineData.categories)) {
+      continue;
+    }
+
+    const categoryIds = [...new Set(machineData.categories.map(Number))].filter(
+      (id) => {
+        const exists = existingCategoryIds.has(id);
+        if (!exists) skippedIds.add(id);
+        return exists;
+      }
+    );
+
+    const { categories: _legacyCategories, ...remainingMachineData } = machineData;
+
+    await db.transaction(async (tx) => {
+      if (categoryIds.length > 0) {
+        const inserted = await tx
+          .insert(productCategory)
+          .values(categoryIds.map((categoryId) => ({ productId: prod.id, categoryId })))
+          .onConflictDoNothing()
+          .returning();
+        createdLinks += inserted.length;
+      }
+
+      await tx
+        .update(product)
+        .set({ machineData: remainingMachineData })
+        .where(eq(product.id, prod.id));
+    });
+
+    migratedProducts++;
+  }
+
+  console.log(`Migrated ${migratedProducts} product(s), created ${createdLinks} link(s)`);
+  if (skippedIds.size > 0) {
+    console.warn(`Skipped unknown category IDs: ${[...skippedIds].join(", ")}`);
+  }
+};
+
+migrate()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,65 @@
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { product, productImages } from "../db/schema";
+
+/**
+ * One-time migration that moves the legacy `machineData.images` URL arrays
+ * into the product_images table and strips them from machineData.
+ * Safe to run more than once.
+ */
+const migrate = async () => {
+  const products = await db.select().from(product);
+
+  let migratedProducts = 0;
+  let createdImages = 0;
+
+  for (const prod of products) {
+    const machineData = (prod.machineData ?? {}) as Record<string, unknown>;
+    if (!Array.isArray(machineData.images)) {
+      continue;
+    }
+
+    const urls = machineData.images.filter(
+      (url): url is string => typeof url === "string" && url.length > 0
+    );
+    const { images: _legacyImages, ...remainingMachineData } = machineData;
+
+    await db.transaction(async (tx) => {
+      const existing = await tx
+        .select({ url: productImages.url })
+        .from(productImages)
+        .where(eq(productImages.productId, prod.id));
+
+      const existingUrls = new Set(existing.map((image) => image.url));
+      const newUrls = urls.filter((url) => !existingUrls.has(url));
+
+      if (newUrls.length > 0) {
+        await tx.insert(productImages).values(
+          newUrls.map((url, index) => ({
+            productId: prod.id,
+            url,
+            position: existing.length + index,
+            isPrimary: existing.length === 0 && index === 0,
+          }))
+        );
+        createdImages += newUrls.length;
+      }
+
+      await tx
+        .update(product)
+        .set({ machineData: remainingMachineData })
+        .where(eq(product.id, prod.id));
+    });
+
+    migratedProducts++;
+  }
+
+  console.log(`Migrated ${migratedProducts} product(s), created ${createdImages} image row(s)`);
+};
+
+migrate()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
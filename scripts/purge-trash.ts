@@ -0,0 +1,22 @@
+import { purgeTrash, TRASH_RETENTION_DAYS } from "../services/trash.service";
+
+/**
+ * Purges trashed products and categories right away, e.g. to empty the trash:
+ *   bun run db:purge-trash 0
+ */
+const purge = async (retentionDays: string | undefined) => {
+  const days = retentionDays === undefined ? TRASH_RETENTION_DAYS : Number(retentionDays);
+  if (!Number.isFinite(days) || days < 0) {
+    throw new Error("Usage: db:purge-trash [retentionDays]");
+  }
+
+  const purged = await purgeTrash(days);
+  console.log(`Purged ${purged.products} product(s) and ${purged.categories} category(s)`);
+};
+
+purge(process.argv[2])
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
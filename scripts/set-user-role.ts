@@ -0,0 +1,32 @@
+import { eq } from "drizzle-orm";
+import { db } from "../db";
+import { USER_ROLES, users, type UserRole } from "../db/schema";
+
+/**
+ * Assigns a role to an existing user, e.g. to bootstrap the first admin:
+ *   bun run db:set-role <username> admin
+ */
+const setRole = async (username: string | undefined, role: string | undefined) => {
+  if (!username || !USER_ROLES.includes(role as UserRole)) {
+    throw new Error(`Usage: db:set-role <username> <${USER_ROLES.join("|")}>`);
+  }
+
+  const [updated] = await db
+    .update(users)
+    .set({ role: role as UserRole })
+    .where(eq(users.username, username))
+    .returning({ id: users.id });
+
+  if (!updated) {
+    throw new Error(`User '${username}' not found`);
+  }
+
+  console.log(`User '${username}' is now ${role}`);
+};
+
+setRole(process.argv[2], process.argv[3])
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,111 @@
+import { eq } from "drizzle-orm";
+import { type Request } from "express";
+import { db, type DbExecutor } from "../db";
+import {
+  auditLog,
+  product,
+  type AuditAction,
+  type AuditChanges,
+  type AuditEntity,
+} from "../db/schema";
+import { getCategoryIdsForProduct } from "./product-category.service";
+import { getImagesForProducts } from "./product-image.service";
+
+type Snapshot = Record<string, unknown>;
+
+// Values that must never end up in the log, only the fact that they changed
+const REDACTED_FIELDS = new Set(["password"]);
+const REDACTED = "[redacted]";
+
+// Dates, numerics and jsonb are compared the way they are stored
+const normalize = (value: unknown) =>
+  value === undefined ? null : JSON.parse(JSON.stringify(value));
+
+/**
+ * Lists the fields that differ between two snapshots. A missing snapshot
+ * (create or delete) turns every field of the other one into a change.
+ */
+export const diffSnapshots = (before: Snapshot | null, after: Snapshot | null): AuditChanges => {
+  const changes: AuditChanges = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  for (const key of keys) {
+    const previous = before ? normalize(before[key]) : null;
+    const next = after ? normalize(after[key]) : null;
+
+    if (JSON.stringify(previous) === JSON.stringify(next)) {
+      continue;
+    }
+
+    changes[key] = REDACTED_FIELDS.has(key)
+      ? { before: before ? REDACTED : null, after: after ? REDACTED : null }
+      : { before: previous, after: next };
+  }
+
+  return changes;
+};
+
+type AuditEntry = {
+  entityType: AuditEntity;
+  entityId: number;
+  action: AuditAction;
+  before: Snapshot | null;
+  after: Snapshot | null;
+};
+
+/**
+ * Writes an audit record. Pass the transaction of the change so that both
+ * are committed together. Updates that change nothing are not recorded.
+ */
+export const recordAudit = async (
+  executor: DbExecutor,
+  req: Pick<Request, "user" | "requestId">,
+  entry: AuditEntry
+) => {
+  const changes = diffSnapshots(entry.before, entry.after);
+  if (entry.action === "update" && Object.keys(changes).length === 0) {
+    return;
+  }
+
+  await executor.insert(auditLog).values({
+    userId: req.user?.userId ?? null,
+    username: req.user?.username ?? null,
+    entityType: entry.entityType,
+    entityId: entry.entityId,
+    action: entry.action,
+    changes,
+    requestId: req.requestId,
+  });
+};
+
+/**
+ * Captures a product together with its category links and images,
+ * or null when it does not exist
+ */
+export const getProductSnapshot = async (
+  productId: number,
+  executor: DbExecutor = db
+): Promise<Snapshot | null> => {
+  const [found] = await executor
+    .select()
+    .from(product)
+    .where(eq(product.id, productId))
+    .limit(1);
+
+  if (!found) {
+    return null;
+  }
+
+  const imagesByProduct = await getImagesForProducts([productId], executor);
+
+  return {
+    ...found,
+    categoryIds: await getCategoryIdsForProduct(productId, executor),
+    images: (imagesByProduct.get(productId) ?? []).map((image) => ({
+      id: image.id,
+      url: image.url,
+      position: image.position,
+      isPrimary: image.isPrimary,
+    })),
+  };
+};
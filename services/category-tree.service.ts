@@ -0,0 +1,180 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { db, type DbExecutor } from "../db";
+import { category } from "../db/schema";
+import { BadRequestError, NotFoundError } from "../errors";
+import { localizeCategories } from "./translation.service";
+
+type CategoryNode = { id: number; parentId: number | null; position: number };
+
+export type CategoryTreeNode<T> = T & { children: CategoryTreeNode<T>[] };
+
+const byPosition = (a: CategoryNode, b: CategoryNode) => a.position - b.position || a.id - b.id;
+
+// Categories in the trash are left out of the tree
+const loadNodes = (executor: DbExecutor = db) =>
+  executor
+    .select({ id: category.id, parentId: category.parentId, position: category.position })
+    .from(category)
+    .where(isNull(category.deletedAt));
+
+/**
+ * Nests categories under their parents, siblings ordered by position.
+ * Categories whose parent is not in the list become roots.
+ */
+export const buildCategoryTree = <T extends CategoryNode>(categories: T[]) => {
+  const nodes = new Map(
+    categories.map((item) => [item.id, { ...item, children: [] } as CategoryTreeNode<T>])
+  );
+  const roots: CategoryTreeNode<T>[] = [];
+
+  for (const node of [...nodes.values()].sort(byPosition)) {
+    const parent = node.parentId !== null ? nodes.get(node.parentId) : undefined;
+    (parent ? parent.children : roots).push(node);
+  }
+
+  return roots;
+};
+
+/**
+ * Ids of all categories below the given one, at any depth
+ */
+export const getDescendantIds = async (categoryId: number, executor: DbExecutor = db) => {
+  const nodes = await loadNodes(executor);
+  const descendants: number[] = [];
+  const queue = [categoryId];
+
+  while (queue.length > 0) {
+    const parentId = queue.shift()!;
+    for (const node of nodes) {
+      if (node.parentId === parentId && !descendants.includes(node.id)) {
+        descendants.push(node.id);
+        queue.push(node.id);
+      }
+    }
+  }
+
+  return descendants;
+};
+
+/**
+ * Path from the root down to the category, for breadcrumbs
+ */
+export const getBreadcrumbs = async (categoryId: number, locales: string[]) => {
+  const rows = await db
+    .select({
+      id: category.id,
+      parentId: category.parentId,
+      name: category.name,
+      slug: category.slug,
+      description: category.description,
+    })
+    .from(category)
+    .where(isNull(category.deletedAt));
+  const byId = new Map(rows.map((row) => [row.id, row]));
+
+  const path: typeof rows = [];
+  for (let current = byId.get(categoryId); current && !path.includes(current); ) {
+    path.unshift(current);
+    current = current.parentId !== null ? byId.get(current.parentId) : undefined;
+  }
+
+  return (await localizeCategories(path, locales)).map(({ id, name, slug }) => ({ id, name, slug }));
+};
+
+/**
+ * Checks that a category can be placed under `parentId`: the parent must
+ * exist and must not be the category itself or one of its descendants
+ */
+export const assertValidParent = async (
+  executor: DbExecutor,
+  categoryId: number | undefined,
+  parentId: number | null
+) => {
+  if (parentId === null) {
+    return;
+  }
+
+  const [parent] = await executor
+    .select({ id: category.id })
+    .from(category)
+    .where(and(eq(category.id, parentId), isNull(category.deletedAt)))
+    .limit(1);
+
+  if (!parent) {
+    throw new NotFoundError("Parent category not found");
+  }
+
+  if (
+    categoryId !== undefined &&
+    (parentId === categoryId || (await getDescendantIds(categoryId, executor)).includes(parentId))
+  ) {
+    throw new BadRequestError("A category cannot be moved below itself or one of its subcategories", "CATEGORY_CYCLE");
+  }
+};
+
+const getSiblingIds = async (executor: DbExecutor, parentId: number | null) =>
+  (await loadNodes(executor))
+    .filter((node) => node.parentId === parentId)
+    .sort(byPosition)
+    .map((node) => node.id);
+
+// Stores positions 0..n-1 in the given order
+const writeSiblingOrder = async (executor: DbExecutor, ids: number[]) => {
+  for (const [position, id] of ids.entries()) {
+    await executor.update(category).set({ position }).where(eq(category.id, id));
+  }
+};
+
+export const getNextPosition = async (executor: DbExecutor, parentId: number | null) =>
+  (await getSiblingIds(executor, parentId)).length;
+
+/**
+ * Moves a category under another parent (null for the root level) at the given
+ * position, at the end when omitted. Siblings on both levels are renumbered.
+ */
+export const moveCategory = async (
+  executor: DbExecutor,
+  categoryId: number,
+  parentId: number | null,
+  position?: number
+) => {
+  await assertValidParent(executor, categoryId, parentId);
+
+  const [current] = await executor
+    .select({ parentId: category.parentId })
+    .from(category)
+    .where(eq(category.id, categoryId))
+    .limit(1);
+
+  await executor.update(category).set({ parentId }).where(eq(category.id, categoryId));
+
+  if (current && current.parentId !== parentId) {
+    await writeSiblingOrder(
+      executor,
+      (await getSiblingIds(executor, current.parentId)).filter((id) => id !== categoryId)
+    );
+  }
+
+  const siblings = (await getSiblingIds(executor, parentId)).filter((id) => id !== categoryId);
+  siblings.splice(Math.min(position ?? siblings.length, siblings.length), 0, categoryId);
+  await writeSiblingOrder(executor, siblings);
+};
+
+/**
+ * Sets the order of all children of a parent (null for the root level)
+ */
+export const reorderCategories = async (
+  executor: DbExecutor,
+  parentId: number | null,
+  categoryIds: number[]
+) => {
+  const siblings = await getSiblingIds(executor, parentId);
+
+  const missing = siblings.filter((id) => !categoryIds.includes(id));
+  const unknown = categoryIds.filter((id) => !siblings.includes(id));
+  if (missing.length > 0 || unknown.length > 0 || new Set(categoryIds).size !== categoryIds.length) {
+    throw new BadRequestError("categoryIds must list every subcategory of the parent exactly once");
+  }
+
+  await writeSiblingOrder(executor, categoryIds);
+};
@@ -0,0 +1,21 @@
+import { category } from "../db/schema";
+import { resolveUrl, resolveUrls } from "./storage";
+
+export type Category = typeof category.$inferSelect;
+
+/**
+ * Replaces the stored image keys of categories with URLs the client can load
+ */
+export const presentCategories = (categories: Category[]) =>
+  Promise.all(
+    categories.map(async (item) => ({
+      ...item,
+      imageUrl: await resolveUrl(item.imageUrl),
+      imageVariants: await resolveUrls(item.imageVariants),
+    }))
+  );
+
+export const presentCategory = async (item: Category) => {
+  const [presented] = await presentCategories([item]);
+  return presented;
+};
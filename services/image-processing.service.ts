@@ -0,0 +1,151 @@
+import { open } from "node:fs/promises";
+import sharp from "sharp";
+import { v4 as uuidv4 } from "uuid";
+import { deleteStoredFiles, storage } from "./storage";
+
+export const IMAGE_VARIANTS = {
+  thumbnail: { width: 200, height: 200, fit: "cover" },
+  card: { width: 600, height: 600, fit: "inside" },
+  full: { width: 1600, height: 1600, fit: "inside" },
+} as const;
+
+export type ImageVariant = keyof typeof IMAGE_VARIANTS;
+export type ImageVariantUrls = Record<ImageVariant, string>;
+
+/** Storage keys of an uploaded image; resolve them to URLs before responding */
+export interface ProcessedImage {
+  url: string;
+  variants: ImageVariantUrls;
+}
+
+export class InvalidImageError extends Error {
+  constructor(public readonly filename: string, reason = "is not a valid JPEG, PNG or WebP image") {
+    super(`'${filename}' ${reason}`);
+    this.name = "InvalidImageError";
+  }
+}
+
+type ImageType = "jpeg" | "png" | "webp";
+
+/**
+ * Detects the image type from the file signature instead of trusting the
+ * extension or the client supplied mimetype
+ */
+export const detectImageType = (buffer: Buffer): ImageType | null => {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return "jpeg";
+  }
+
+  const pngSignature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+  if (buffer.length >= 8 && pngSignature.every((byte, index) => buffer[index] === byte)) {
+    return "png";
+  }
+
+  if (
+    buffer.length >= 12 &&
+    buffer.toString("ascii", 0, 4) === "RIFF" &&
+    buffer.toString("ascii", 8, 12) === "WEBP"
+  ) {
+    return "webp";
+  }
+
+  return null;
+};
+
+// The longest signature detectImageType looks at
+const SIGNATURE_LENGTH = 12;
+
+const readSignature = async (path: string) => {
+  const handle = await open(path, "r");
+  try {
+    const buffer = Buffer.alloc(SIGNATURE_LENGTH);
+    const { bytesRead } = await handle.read(buffer, 0, SIGNATURE_LENGTH, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+};
+
+/**
+ * Renders one variant. sharp only fails here on the input, e.g. truncated or
+ * corrupt data or more pixels than its limit, so errors are the client's.
+ */
+const renderVariant = async (
+  file: Pick<Express.Multer.File, "path" | "originalname">,
+  options: (typeof IMAGE_VARIANTS)[ImageVariant]
+) => {
+  try {
+    return await sharp(file.path)
+      .rotate()
+      .resize({ ...options, withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer();
+  } catch (error) {
+    throw error instanceof Error && /pixel limit/i.test(error.message)
+      ? new InvalidImageError(file.originalname, "exceeds the maximum image size")
+      : new InvalidImageError(file.originalname);
+  }
+};
+
+/**
+ * Resizes an uploaded image, read from its temporary file, into every variant
+ * as WebP. Metadata such as EXIF is dropped; the orientation is applied to
+ * the pixels first.
+ */
+export const processImage = async (
+  file: Pick<Express.Multer.File, "path" | "originalname">,
+  folder: string
+): Promise<ProcessedImage> => {
+  if (!detectImageType(await readSignature(file.path))) {
+    throw new InvalidImageError(file.originalname);
+  }
+
+  const baseName = uuidv4();
+  const variants = {} as ImageVariantUrls;
+
+  try {
+    for (const [variant, options] of Object.entries(IMAGE_VARIANTS)) {
+      const key = `${folder}/${baseName}-${variant}.webp`;
+
+      const output = await renderVariant(file, options);
+
+      await storage.put(key, output, "image/webp");
+      variants[variant as ImageVariant] = key;
+    }
+  } catch (error) {
+    await deleteStoredFiles(Object.values(variants));
+    throw error;
+  }
+
+  return { url: variants.full, variants };
+};
+
+/**
+ * Processes a batch of uploads, removing already written variants when one fails
+ */
+export const processImages = async (
+  files: Pick<Express.Multer.File, "path" | "originalname">[],
+  folder: string
+) => {
+  const processed: ProcessedImage[] = [];
+
+  try {
+    for (const file of files) {
+      processed.push(await processImage(file, folder));
+    }
+  } catch (error) {
+    await deleteStoredFiles(processed.flatMap((image) => Object.values(image.variants)));
+    throw error;
+  }
+
+  return processed;
+};
+
+/**
+ * Collects every stored file that belongs to an image, including legacy
+ * rows that only have the original file
+ */
+export const getImageFiles = (image: { url: string | null; variants?: unknown }) => {
+  const variantUrls = image.variants ? Object.values(image.variants as ImageVariantUrls) : [];
+  return [...new Set([...(image.url ? [image.url] : []), ...variantUrls])];
+};
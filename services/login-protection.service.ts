@@ -0,0 +1,54 @@
+import { rateLimitStore } from "./rate-limit";
+
+const MAX_FAILURES = Number(process.env.LOGIN_MAX_FAILURES) || 5;
+const FAILURE_WINDOW_MS = Number(process.env.LOGIN_FAILURE_WINDOW_MS) || 15 * 60 * 1000;
+const LOCKOUT_MS = Number(process.env.LOGIN_LOCKOUT_MS) || 15 * 60 * 1000;
+
+const failureKey = (username: string) => `login-failures:${username.toLowerCase()}`;
+const lockKey = (username: string) => `login-lock:${username.toLowerCase()}`;
+
+// Like the rate limiter, an unavailable store never blocks a login
+const logStoreError = (error: unknown) => {
+  console.error("Login protection store error:", error);
+};
+
+/**
+ * Returns when the lockout of the username ends, or null when it is not locked
+ */
+export const getLoginLockout = async (username: string) => {
+  try {
+    const lock = await rateLimitStore.get(lockKey(username));
+    return lock ? lock.resetAt : null;
+  } catch (error) {
+    logStoreError(error);
+    return null;
+  }
+};
+
+/**
+ * Counts a failed login and locks the username once the limit is reached.
+ * Returns the end of the lockout when one started.
+ */
+export const recordFailedLogin = async (username: string) => {
+  try {
+    const failures = await rateLimitStore.increment(failureKey(username), FAILURE_WINDOW_MS);
+    if (failures.count < MAX_FAILURES) {
+      return null;
+    }
+
+    await rateLimitStore.reset(failureKey(username));
+    const lock = await rateLimitStore.increment(lockKey(username), LOCKOUT_MS);
+    return lock.resetAt;
+  } catch (error) {
+    logStoreError(error);
+    return null;
+  }
+};
+
+export const clearFailedLogins = async (username: string) => {
+  try {
+    await rateLimitStore.reset(failureKey(username));
+  } catch (error) {
+    logStoreError(error);
+  }
+};
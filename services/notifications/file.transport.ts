@@ -0,0 +1,20 @@
+import path from "path";
+import fs from "fs/promises";
+import type { MailTransport } from "./notification.types";
+
+/**
+ * Development transport: writes every message as JSON into a directory,
+ * or prints it to the console when no directory is given
+ */
+export const createFileTransport = (directory?: string): MailTransport => ({
+  async send(message) {
+    if (!directory) {
+      console.log(`[mail] To: ${message.to.join(", ")}\n[mail] Subject: ${message.subject}\n${message.text}`);
+      return;
+    }
+
+    await fs.mkdir(directory, { recursive: true });
+    const filename = `${new Date().toISOString().replace(/[:.]/g, "-")}-${Math.random().toString(36).slice(2, 8)}.json`;
+    await fs.writeFile(path.join(directory, filename), JSON.stringify(message, null, 2));
+  },
+});
@@ -0,0 +1,91 @@
+import "dotenv/config";
+import { createFileTransport } from "./file.transport";
+import { createMemoryTransport } from "./memory.transport";
+import { createSmtpTransport } from "./smtp.transport";
+import { templates, type TemplateName } from "./templates";
+import type { MailMessage, MailTransport } from "./notification.types";
+
+export type { MailMessage, MailTransport } from "./notification.types";
+export { createMemoryTransport } from "./memory.transport";
+
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 5000;
+
+const createTransport = (): MailTransport => {
+  switch (process.env.MAIL_TRANSPORT || "console") {
+    case "smtp":
+      if (!process.env.SMTP_HOST || !process.env.MAIL_FROM) {
+        throw new Error("SMTP_HOST and MAIL_FROM are required when MAIL_TRANSPORT=smtp");
+      }
+      return createSmtpTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || 587,
+        secure: process.env.SMTP_SECURE === "true",
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+        from: process.env.MAIL_FROM,
+      });
+    case "file":
+      return createFileTransport(process.env.MAIL_FILE_DIR || "mail");
+    case "console":
+      return createFileTransport();
+    case "memory":
+      return createMemoryTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT '${process.env.MAIL_TRANSPORT}'`);
+  }
+};
+
+let transport = createTransport();
+
+/**
+ * Replaces the transport, e.g. with a memory transport in tests
+ */
+export const setMailTransport = (next: MailTransport) => {
+  transport = next;
+};
+
+const deliver = async (message: MailMessage, attempt = 1): Promise<void> => {
+  try {
+    await transport.send(message);
+  } catch (error) {
+    if (attempt >= MAX_ATTEMPTS) {
+      console.error(`Failed to send mail "${message.subject}":`, error);
+      return;
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+    return deliver(message, attempt + 1);
+  }
+};
+
+/**
+ * Renders a template and sends it in the background. Request handlers never
+ * wait for delivery and failures are only logged.
+ */
+export const notify = <T extends TemplateName>(
+  to: (string | null | undefined)[],
+  template: T,
+  data: Parameters<(typeof templates)[T]>[0]
+) => {
+  const recipients = to.filter((address): address is string => Boolean(address));
+  if (recipients.length === 0) {
+    return;
+  }
+
+  const render = templates[template] as (data: unknown) => Omit<MailMessage, "to">;
+  const message = { to: recipients, ...render(data) };
+
+  setImmediate(() => {
+    void deliver(message);
+  });
+};
+
+/**
+ * Recipients of new quote requests, configured as a comma separated list
+ */
+export const getInquiryRecipients = () =>
+  (process.env.INQUIRY_NOTIFY_EMAILS || "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
@@ -0,0 +1,20 @@
+import type { MailMessage, MailTransport } from "./notification.types";
+
+/**
+ * Test transport: keeps sent messages in memory
+ */
+export const createMemoryTransport = () => {
+  const sent: MailMessage[] = [];
+
+  const transport: MailTransport & { sent: MailMessage[]; clear(): void } = {
+    sent,
+    async send(message) {
+      sent.push(message);
+    },
+    clear() {
+      sent.length = 0;
+    },
+  };
+
+  return transport;
+};
@@ -0,0 +1,58 @@
+type Template = {
+  subject: string;
+  text: string;
+  html: string;
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Renders the text lines as simple paragraphs
+const toHtml = (lines: string[]) =>
+  lines.map((line) => `<p>${escapeHtml(line)}</p>`).join("\n");
+
+const build = (subject: string, lines: string[]): Template => ({
+  subject,
+  text: lines.join("\n\n"),
+  html: toHtml(lines),
+});
+
+export type InquiryReceivedData = {
+  inquiryId: number;
+  productName: string;
+  name: string;
+  company?: string | null;
+  email: string;
+  phone?: string | null;
+  quantity: number;
+  message: string;
+};
+
+export const templates = {
+  inquiryReceived: (data: InquiryReceivedData) =>
+    build(`New quote request for ${data.productName}`, [
+      `A new quote request (#${data.inquiryId}) was submitted for ${data.productName}.`,
+      `From: ${data.name}${data.company ? ` (${data.company})` : ""}`,
+      `Email: ${data.email}${data.phone ? ` / Phone: ${data.phone}` : ""}`,
+      `Quantity: ${data.quantity}`,
+      `Message: ${data.message}`,
+    ]),
+
+  userCreated: (data: { username: string; role: string }) =>
+    build("Your account has been created", [
+      `An account with the username "${data.username}" and the role ${data.role} has been created for you.`,
+      "Your administrator will share your initial password with you. Please change it after your first login.",
+    ]),
+
+  passwordReset: (data: { username: string }) =>
+    build("Your password has been reset", [
+      `The password of your account "${data.username}" was reset by an administrator.`,
+      "All active sessions were signed out. If you did not expect this, contact your administrator.",
+    ]),
+};
+
+export type TemplateName = keyof typeof templates;
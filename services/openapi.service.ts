@@ -0,0 +1,199 @@
+import {
+  OpenAPIRegistry,
+  OpenApiGeneratorV3,
+  extendZodWithOpenApi,
+  type RouteConfig,
+  type ZodMediaTypeObject,
+} from "@asteasolutions/zod-to-openapi";
+import { type NextFunction, type Request, type Response, type Router } from "express";
+import { z } from "zod";
+import { type UserRole } from "../db/schema";
+import {
+  authenticateToken,
+  getAuthorizedRoles,
+  optionalAuthentication,
+} from "../middlewares/auth.middleware";
+import { getRequestSchemas } from "../middlewares/validate.middleware";
+import { errorResponseSchema, successResponseSchema } from "../schemas/common.schema";
+import { userResponseSchema } from "../schemas/auth.schema";
+import { categoryDetailResponseSchema, categoryResponseSchema } from "../schemas/category.schema";
+import { productImageResponseSchema, productResponseSchema } from "../schemas/product.schema";
+import { inquiryResponseSchema } from "../schemas/inquiry.schema";
+import { exchangeRateResponseSchema } from "../schemas/exchange-rate.schema";
+import {
+  categoryTranslationResponseSchema,
+  productTranslationResponseSchema,
+} from "../schemas/translation.schema";
+
+extendZodWithOpenApi(z);
+
+const registry = new OpenAPIRegistry();
+
+const bearerAuth = registry.registerComponent("securitySchemes", "bearerAuth", {
+  type: "http",
+  scheme: "bearer",
+  bearerFormat: "JWT",
+});
+
+const ErrorResponse = registry.register("ErrorResponse", errorResponseSchema);
+export const SuccessResponse = registry.register("SuccessResponse", successResponseSchema);
+export const Category = registry.register("Category", categoryResponseSchema);
+export const CategoryDetail = registry.register("CategoryDetail", categoryDetailResponseSchema);
+export const Product = registry.register("Product", productResponseSchema);
+export const ProductImage = registry.register("ProductImage", productImageResponseSchema);
+export const User = registry.register("User", userResponseSchema);
+export const Inquiry = registry.register("Inquiry", inquiryResponseSchema);
+export const ExchangeRate = registry.register("ExchangeRate", exchangeRateResponseSchema);
+export const ProductTranslation = registry.register("ProductTranslation", productTranslationResponseSchema);
+export const CategoryTranslation = registry.register("CategoryTranslation", categoryTranslationResponseSchema);
+
+// Zod schemas cannot describe the recursion, so the tree node is written by hand
+export const CategoryTreeNode = registry.registerComponent("schemas", "CategoryTreeNode", {
+  allOf: [
+    { $ref: "#/components/schemas/Category" },
+    {
+      type: "object",
+      required: ["children"],
+      properties: {
+        children: { type: "array", items: { $ref: "#/components/schemas/CategoryTreeNode" } },
+      },
+    },
+  ],
+});
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: "Invalid request",
+  401: "Missing or invalid access token",
+  403: "Not allowed for the role of the user",
+  404: "Not found",
+  409: "Conflicts with the current state",
+  429: "Too many requests",
+};
+
+export const json = (schema: ZodMediaTypeObject["schema"], description = "OK") => ({
+  description,
+  content: { "application/json": { schema } },
+});
+
+export const errors = (...statuses: number[]) =>
+  Object.fromEntries(statuses.map((status) => [status, json(ErrorResponse, ERROR_DESCRIPTIONS[status])]));
+
+export const binary = z.string().openapi({ type: "string", format: "binary" });
+
+// Documents the roles next to the bearer token requirement
+const secured = (...roles: UserRole[]): Pick<RouteConfig, "security" | "description"> => ({
+  security: [{ [bearerAuth.name]: [] }],
+  ...(roles.length > 0 && { description: `Requires one of the roles: ${roles.join(", ")}` }),
+});
+
+// Signed in users also see unpublished products and drafts
+const optionallySecured: Pick<RouteConfig, "security"> = {
+  security: [{}, { [bearerAuth.name]: [] }],
+};
+
+export const slugRedirect = {
+  301: { description: "The slug changed, Location points to the current one" },
+};
+
+/**
+ * Describes a route in the OpenAPI document. Method, path, parameters, the
+ * JSON body and the required roles are read from the route itself, so the
+ * description only adds what the handlers cannot tell.
+ */
+export type RouteDoc = Pick<RouteConfig, "tags" | "summary" | "responses"> & {
+  /** Replaces the parts read from validateRequest, e.g. for multipart bodies */
+  request?: RouteConfig["request"];
+};
+
+const routeDocs = new WeakMap<Function, RouteDoc>();
+
+/**
+ * Attaches the OpenAPI description to a route; does nothing on requests
+ */
+export const describeRoute = (doc: RouteDoc) => {
+  const handler = (_: Request, __: Response, next: NextFunction) => next();
+  routeDocs.set(handler, doc);
+  return handler;
+};
+
+// "/products/:id" -> "/products/{id}"
+const toOpenApiPath = (path: string) => path.replace(/:(\w+)/g, "{$1}").replace(/(.)\/$/, "$1");
+
+const registerRoute = (method: RouteConfig["method"], path: string, handlers: Function[]) => {
+  const doc = handlers.map((handler) => routeDocs.get(handler)).find(Boolean);
+  if (!doc) {
+    throw new Error(`${method.toUpperCase()} ${path} has no describeRoute()`);
+  }
+
+  const schemas = Object.assign({}, ...handlers.map((handler) => getRequestSchemas(handler) ?? {}));
+  const roles = handlers.map((handler) => getAuthorizedRoles(handler)).find(Boolean) ?? [];
+
+  // Path parameters without a schema are documented as strings
+  const params = [...path.matchAll(/{(\w+)}/g)]
+    .map((match) => match[1])
+    .reduce(
+      (schema, name) => (name in schema.shape ? schema : schema.extend({ [name]: z.string() })),
+      schemas.params ?? z.object({})
+    );
+
+  registry.registerPath({
+    method,
+    path,
+    ...(handlers.includes(authenticateToken)
+      ? secured(...roles)
+      : handlers.includes(optionalAuthentication) && optionallySecured),
+    ...doc,
+    request: {
+      ...(Object.keys(params.shape).length > 0 && { params }),
+      ...(schemas.query && { query: schemas.query }),
+      ...(schemas.body && { body: { content: { "application/json": { schema: schemas.body } } } }),
+      ...doc.request,
+    },
+  });
+};
+
+/**
+ * Documents every route of a router mounted at `basePath`. Throws for routes
+ * without describeRoute() so that none is missing from the document.
+ */
+export const registerRoutes = (basePath: string, router: Router) => {
+  // Middleware of router.use() applies to the routes after it
+  const shared: Function[] = [];
+
+  for (const layer of router.stack) {
+    if (!layer.route) {
+      shared.push(layer.handle);
+      continue;
+    }
+
+    const path = toOpenApiPath(`${basePath}${layer.route.path}`);
+    const methods = new Set(layer.route.stack.map((routeLayer) => routeLayer.method));
+
+    for (const method of methods) {
+      registerRoute(method as RouteConfig["method"], path, [
+        ...shared,
+        ...layer.route.stack
+          .filter((routeLayer) => routeLayer.method === method)
+          .map((routeLayer) => routeLayer.handle),
+      ]);
+    }
+  }
+};
+
+let document: ReturnType<OpenApiGeneratorV3["generateDocument"]> | undefined;
+
+/**
+ * The OpenAPI 3 document of the API, generated once from the routes passed
+ * to registerRoutes
+ */
+export const getOpenApiDocument = () => {
+  document ??= new OpenApiGeneratorV3(registry.definitions).generateDocument({
+    openapi: "3.0.3",
+    info: {
+      title: "Catalog API",
+      version: "1.0.0",
+    },
+  });
+
+  return document;
+};
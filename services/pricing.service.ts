@@ -0,0 +1,247 @@
+import { sql, type SQL } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "../db";
+import { BASE_CURRENCY, exchangeRates, product } from "../db/schema";
+import { BadRequestError, ValidationError, type ErrorDetail } from "../errors";
+
+export { BASE_CURRENCY };
+
+export const currencySchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{3}$/, "Currency must be a three letter ISO 4217 code");
+
+// `?currency=` on product reads
+export const currencyQuerySchema = z.object({
+  currency: currencySchema.optional(),
+});
+
+export const priceSchema = z.coerce
+  .string()
+  .trim()
+  .regex(/^\d+(\.\d{1,4})?$/, "Price must be a positive number with up to four decimals");
+
+export const priceTierSchema = z.object({
+  minQuantity: z.coerce.number().int().min(2, "Tiers start at a quantity of 2"),
+  price: priceSchema,
+});
+
+export const priceTiersSchema = z
+  .array(priceTierSchema)
+  .max(20)
+  .refine(
+    (tiers) => new Set(tiers.map((tier) => tier.minQuantity)).size === tiers.length,
+    "Tier quantities must be unique"
+  )
+  .transform((tiers) => [...tiers].sort((a, b) => a.minQuantity - b.minQuantity));
+
+export type PriceTier = z.infer<typeof priceTierSchema>;
+
+export type Pricing = {
+  price: string | null;
+  currency: string;
+  isContactForPrice: boolean | null;
+  priceIsStartingFrom: boolean;
+  priceTiers: PriceTier[];
+};
+
+/**
+ * Checks that the price fields of a product agree with each other:
+ * price on request products have no price, all others need one
+ */
+export const validatePricing = (pricing: Pricing) => {
+  const details: ErrorDetail[] = [];
+
+  if (pricing.isContactForPrice) {
+    if (pricing.price !== null) {
+      details.push({ path: "price", message: "Products with isContactForPrice cannot have a price" });
+    }
+    if (pricing.priceTiers.length > 0) {
+      details.push({ path: "priceTiers", message: "Products with isContactForPrice cannot have price tiers" });
+    }
+    if (pricing.priceIsStartingFrom) {
+      details.push({ path: "priceIsStartingFrom", message: "Products with isContactForPrice cannot have a starting price" });
+    }
+  } else if (pricing.price === null) {
+    details.push({ path: "price", message: "A price is required unless isContactForPrice is set" });
+  }
+
+  if (details.length > 0) {
+    throw new ValidationError(details, "Invalid pricing");
+  }
+};
+
+const splitPriceTiers = (value: unknown) =>
+  typeof value === "string" && !value.trim().startsWith("[")
+    ? value
+        .split("|")
+        .filter((part) => part.trim() !== "")
+        .map((part) => {
+          const [minQuantity, price] = part.split(":");
+          return { minQuantity: minQuantity?.trim(), price: price?.trim() };
+        })
+    : value;
+
+// Tiers in request bodies, also accepted as "10:950|50:900"
+export const priceTiersInputSchema = z.preprocess(splitPriceTiers, priceTiersSchema);
+
+// Multipart forms send tiers as a JSON string, spreadsheets as "10:950|50:900"
+export const parsePriceTiers = (value: unknown): PriceTier[] => {
+  let parsed = value;
+  if (typeof value === "string") {
+    try {
+      parsed = value.trim().startsWith("[") ? JSON.parse(value) : splitPriceTiers(value);
+    } catch (error) {
+      throw new BadRequestError("Invalid price tiers format");
+    }
+  }
+
+  const result = priceTiersSchema.safeParse(parsed);
+  if (!result.success) {
+    throw new ValidationError(
+      result.error.errors.map((err) => ({
+        path: ["priceTiers", ...err.path].join("."),
+        message: err.message,
+      }))
+    );
+  }
+
+  return result.data;
+};
+
+export type PricingInput = {
+  price?: unknown;
+  currency?: unknown;
+  isContactForPrice?: unknown;
+  priceIsStartingFrom?: unknown;
+  priceTiers?: unknown;
+};
+
+export const hasPricingInput = (input: PricingInput) =>
+  Object.values(input).some((value) => value !== undefined);
+
+const parseBoolean = (value: unknown) => value === true || value === "true";
+
+const parseField = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, path: string, value: unknown) => {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new ValidationError(result.error.errors.map((err) => ({ path, message: err.message })));
+  }
+  return result.data;
+};
+
+/**
+ * Merges pricing fields from a (possibly multipart) request body onto the
+ * current pricing of a product and validates the result. Switching a product
+ * to isContactForPrice clears price and tiers unless they are sent as well.
+ */
+export const resolvePricing = (input: PricingInput, stored?: Pricing): Pricing => {
+  // Rows created before the pricing rules can have a price next to the old
+  // isContactForPrice default; the price wins so that unrelated updates pass
+  const current =
+    stored?.isContactForPrice && stored.price !== null ? { ...stored, isContactForPrice: false } : stored;
+  const isContactForPrice =
+    input.isContactForPrice !== undefined
+      ? parseBoolean(input.isContactForPrice)
+      : current?.isContactForPrice ?? false;
+  const base = isContactForPrice && input.isContactForPrice !== undefined ? undefined : current;
+
+  const pricing: Pricing = {
+    isContactForPrice,
+    price:
+      input.price === undefined
+        ? base?.price ?? null
+        : input.price === null || input.price === ""
+          ? null
+          : parseField(priceSchema, "price", input.price),
+    currency:
+      input.currency === undefined || input.currency === ""
+        ? current?.currency ?? BASE_CURRENCY
+        : parseField(currencySchema, "currency", input.currency),
+    priceIsStartingFrom:
+      input.priceIsStartingFrom === undefined
+        ? base?.priceIsStartingFrom ?? false
+        : parseBoolean(input.priceIsStartingFrom),
+    priceTiers:
+      input.priceTiers === undefined
+        ? base?.priceTiers ?? []
+        : parsePriceTiers(input.priceTiers),
+  };
+
+  validatePricing(pricing);
+  return pricing;
+};
+
+export const formatPriceTiers = (tiers: PriceTier[]) =>
+  tiers.map((tier) => `${tier.minQuantity}:${tier.price}`).join("|");
+
+/**
+ * Loads the exchange rate table, including the base currency with a rate of 1
+ */
+export const getExchangeRates = async () => {
+  const rows = await db.select().from(exchangeRates);
+  const rates = new Map(rows.map((row) => [row.currency, Number(row.rate)]));
+  rates.set(BASE_CURRENCY, 1);
+  return rates;
+};
+
+// Units of a currency per BASE_CURRENCY, null when the rate is unknown
+const rateSql = (currency: SQL) =>
+  sql`case when ${currency} = ${BASE_CURRENCY} then 1 else (select ${exchangeRates.rate} from ${exchangeRates} where ${exchangeRates.currency} = ${currency}) end`;
+
+/**
+ * The product price converted into `currency` in SQL, so that prices in
+ * different currencies can be filtered and sorted together. Null when either
+ * exchange rate is unknown.
+ */
+export const convertedPriceSql = (currency: string = BASE_CURRENCY) =>
+  sql`(${product.price} * ${rateSql(sql`${currency}::varchar`)} / ${rateSql(sql`${product.currency}`)})`;
+
+const convertAmount = (amount: string, rate: number) => (Number(amount) * rate).toFixed(2);
+
+type PricedProduct = {
+  price: string | null;
+  currency: string;
+  priceTiers: PriceTier[];
+};
+
+/**
+ * Adds `convertedPrice` with price and tiers in the requested currency.
+ * Stored prices are left untouched.
+ */
+export const withConvertedPrices = async <T extends PricedProduct>(
+  products: T[],
+  currency: string | undefined
+) => {
+  if (!currency) {
+    return products;
+  }
+
+  const rates = await getExchangeRates();
+  const targetRate = rates.get(currency);
+  if (targetRate === undefined) {
+    throw new BadRequestError(`No exchange rate for ${currency}`, "UNKNOWN_CURRENCY");
+  }
+
+  return products.map((prod) => {
+    const sourceRate = rates.get(prod.currency);
+    if (sourceRate === undefined) {
+      return { ...prod, convertedPrice: null };
+    }
+
+    const rate = targetRate / sourceRate;
+    return {
+      ...prod,
+      convertedPrice: {
+        currency,
+        rate,
+        price: prod.price === null ? null : convertAmount(prod.price, rate),
+        priceTiers: prod.priceTiers.map((tier) => ({
+          minQuantity: tier.minQuantity,
+          price: convertAmount(tier.price, rate),
+        })),
+      },
+    };
+  });
+};
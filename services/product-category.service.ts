@@ -0,0 +1,118 @@
+import { and, eq, inArray, isNotNull, isNull, notInArray } from "drizzle-orm";
+import { db, type DbExecutor } from "../db";
+import { category, productCategory } from "../db/schema";
+import { presentCategories, type Category } from "./category.service";
+
+/**
+ * Loads the categories of the given products through the product_category join table
+ */
+export const getCategoriesForProducts = async (
+  productIds: number[],
+  executor: DbExecutor = db
+): Promise<Map<number, Category[]>> => {
+  const categoriesByProduct = new Map<number, Category[]>(
+    productIds.map((id) => [id, []])
+  );
+
+  if (productIds.length === 0) {
+    return categoriesByProduct;
+  }
+
+  const rows = await executor
+    .select({ productId: productCategory.productId, category })
+    .from(productCategory)
+    .innerJoin(category, eq(productCategory.categoryId, category.id))
+    .where(and(inArray(productCategory.productId, productIds), isNull(category.deletedAt)));
+
+  for (const row of rows) {
+    categoriesByProduct.get(row.productId)?.push(row.category);
+  }
+
+  return categoriesByProduct;
+};
+
+/**
+ * Attaches categories to a list of products in a single query
+ */
+export const withCategories = async <T extends { id: number }>(
+  products: T[],
+  executor: DbExecutor = db
+) => {
+  const categoriesByProduct = await getCategoriesForProducts(
+    products.map((prod) => prod.id),
+    executor
+  );
+
+  return Promise.all(
+    products.map(async (prod) => ({
+      ...prod,
+      categories: await presentCategories(categoriesByProduct.get(prod.id) ?? []),
+    }))
+  );
+};
+
+/**
+ * Returns the ids from the list that do not belong to an existing category.
+ * Trashed categories count as missing.
+ */
+export const findMissingCategoryIds = async (
+  categoryIds: number[],
+  executor: DbExecutor = db
+) => {
+  if (categoryIds.length === 0) {
+    return [];
+  }
+
+  const existing = await executor
+    .select({ id: category.id })
+    .from(category)
+    .where(and(inArray(category.id, categoryIds), isNull(category.deletedAt)));
+
+  const existingIds = new Set(existing.map((row) => row.id));
+  return categoryIds.filter((id) => !existingIds.has(id));
+};
+
+export const getCategoryIdsForProduct = async (
+  productId: number,
+  executor: DbExecutor = db
+) => {
+  const rows = await executor
+    .select({ categoryId: productCategory.categoryId })
+    .from(productCategory)
+    .innerJoin(category, eq(productCategory.categoryId, category.id))
+    .where(and(eq(productCategory.productId, productId), isNull(category.deletedAt)));
+
+  return rows.map((row) => row.categoryId);
+};
+
+/**
+ * Replaces the category links of a product. Links to trashed categories are
+ * kept so that restoring the category brings them back.
+ */
+export const setProductCategories = async (
+  executor: DbExecutor,
+  productId: number,
+  categoryIds: number[]
+) => {
+  await executor
+    .delete(productCategory)
+    .where(
+      and(
+        eq(productCategory.productId, productId),
+        notInArray(
+          productCategory.categoryId,
+          executor.select({ id: category.id }).from(category).where(isNotNull(category.deletedAt))
+        )
+      )
+    );
+
+  const uniqueIds = [...new Set(categoryIds)];
+  if (uniqueIds.length === 0) {
+    return;
+  }
+
+  await executor
+    .insert(productCategory)
+    .values(uniqueIds.map((categoryId) => ({ productId, categoryId })))
+    .onConflictDoNothing();
+};
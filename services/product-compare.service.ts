@@ -0,0 +1,199 @@
+import type { SpecField } from "./spec-template.service";
+
+type UnitDefinition = {
+  dimension: string;
+  /** Factor to convert a value in this unit into the canonical unit */
+  factor: number;
+};
+
+// Known units by lower-cased symbol, see CANONICAL_UNITS for the target unit
+const UNITS: Record<string, UnitDefinition> = {
+  kw: { dimension: "power", factor: 1 },
+  w: { dimension: "power", factor: 0.001 },
+  mw: { dimension: "power", factor: 1000 },
+  hp: { dimension: "power", factor: 0.7457 },
+  kg: { dimension: "mass", factor: 1 },
+  g: { dimension: "mass", factor: 0.001 },
+  t: { dimension: "mass", factor: 1000 },
+  lb: { dimension: "mass", factor: 0.453592 },
+  mm: { dimension: "length", factor: 1 },
+  cm: { dimension: "length", factor: 10 },
+  m: { dimension: "length", factor: 1000 },
+  in: { dimension: "length", factor: 25.4 },
+  v: { dimension: "voltage", factor: 1 },
+  kv: { dimension: "voltage", factor: 1000 },
+  hz: { dimension: "frequency", factor: 1 },
+  khz: { dimension: "frequency", factor: 1000 },
+  rpm: { dimension: "speed", factor: 1 },
+  bar: { dimension: "pressure", factor: 1 },
+  psi: { dimension: "pressure", factor: 0.0689476 },
+};
+
+const CANONICAL_UNITS: Record<string, string> = {
+  power: "kW",
+  mass: "kg",
+  length: "mm",
+  voltage: "V",
+  frequency: "Hz",
+  speed: "rpm",
+  pressure: "bar",
+};
+
+export type ComparisonValue = {
+  productId: number;
+  /** The value as stored in machineData */
+  raw: unknown;
+  /** The value converted into the attribute unit when possible */
+  value: unknown;
+};
+
+export type ComparisonAttribute = {
+  key: string;
+  label: string;
+  unit: string | null;
+  values: ComparisonValue[];
+  differs: boolean;
+};
+
+type ComparableProduct = {
+  id: number;
+  machineData: unknown;
+  /** Translated labels by machineData key, see localizeProducts */
+  machineDataLabels?: Record<string, string>;
+};
+
+const convert = (value: number, unit: string) => {
+  const definition = UNITS[unit.toLowerCase()];
+  if (!definition) {
+    return null;
+  }
+
+  return {
+    value: Math.round(value * definition.factor * 1e6) / 1e6,
+    unit: CANONICAL_UNITS[definition.dimension],
+  };
+};
+
+/**
+ * Normalizes a single value. Numbers take the unit of the template field,
+ * strings like "5.5 kW" and objects like { value, unit } or
+ * { length, width, height, unit } carry their own.
+ */
+const normalizeValue = (raw: unknown, fieldUnit?: string): { value: unknown; unit: string | null } => {
+  if (typeof raw === "number") {
+    return (fieldUnit && convert(raw, fieldUnit)) || { value: raw, unit: fieldUnit ?? null };
+  }
+
+  if (typeof raw === "string") {
+    const match = raw.trim().match(/^(-?\d+(?:[.,]\d+)?)\s*([a-zA-Z]+)$/);
+    if (match) {
+      const converted = convert(Number(match[1].replace(",", ".")), match[2]);
+      if (converted) return converted;
+    }
+    return { value: raw, unit: null };
+  }
+
+  if (typeof raw === "object" && raw !== null && !Array.isArray(raw)) {
+    const record = raw as Record<string, unknown>;
+
+    if (typeof record.value === "number" && typeof record.unit === "string") {
+      return convert(record.value, record.unit) || { value: record.value, unit: record.unit };
+    }
+
+    // Dimension objects such as { length, width, height } or { length, width, height, unit }
+    const entries = Object.entries(record).filter(([name]) => name !== "unit");
+    if (
+      entries.length > 0 &&
+      entries.every(([, part]) => typeof part === "number") &&
+      (record.unit === undefined || typeof record.unit === "string")
+    ) {
+      const unit = typeof record.unit === "string" ? record.unit : fieldUnit;
+      const converted = entries.map(([name, part]) => [name, unit ? convert(part as number, unit) : null] as const);
+      if (converted.every(([, result]) => result)) {
+        return {
+          value: Object.fromEntries(converted.map(([name, result]) => [name, result!.value])),
+          unit: converted[0][1]!.unit,
+        };
+      }
+      return { value: raw, unit: unit ?? null };
+    }
+  }
+
+  return { value: raw, unit: null };
+};
+
+const humanize = (key: string) =>
+  key
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/[_-]+/g, " ")
+    .replace(/^./, (char) => char.toUpperCase());
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Picks the translated label most of the products use for a key, ties go to
+ * the alphabetically first one. Labels equal to the template label don't count.
+ */
+const pickLabel = (products: ComparableProduct[], key: string, templateLabel?: string) => {
+  const counts = new Map<string, number>();
+  for (const prod of products) {
+    const label = prod.machineDataLabels?.[key];
+    if (label && label !== templateLabel) {
+      counts.set(label, (counts.get(label) ?? 0) + 1);
+    }
+  }
+
+  return [...counts].sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))[0]?.[0];
+};
+
+/**
+ * Aligns the machineData of several products into an attribute matrix.
+ * Template fields come first in template order, other keys follow alphabetically.
+ * Rows are labeled with the products' translated labels where they have one.
+ */
+export const buildComparisonMatrix = (
+  products: ComparableProduct[],
+  fields: SpecField[] = []
+): ComparisonAttribute[] => {
+  const specs = products.map((prod) => ({
+    id: prod.id,
+    data: (prod.machineData ?? {}) as Record<string, unknown>,
+  }));
+
+  const fieldsByKey = new Map(fields.map((field) => [field.key, field]));
+  const extraKeys = [
+    ...new Set(specs.flatMap((spec) => Object.keys(spec.data))),
+  ]
+    .filter((key) => !fieldsByKey.has(key))
+    .sort();
+
+  const keys = [...fields.map((field) => field.key), ...extraKeys].filter((key) =>
+    specs.some((spec) => spec.data[key] !== undefined && spec.data[key] !== null)
+  );
+
+  return keys.map((key) => {
+    const field = fieldsByKey.get(key);
+    const normalized = specs.map((spec) => {
+      const raw = spec.data[key] ?? null;
+      return { productId: spec.id, raw, ...normalizeValue(raw, field?.unit) };
+    });
+
+    // Values in mixed, unconvertible units are compared as stored
+    const units = new Set(normalized.filter((entry) => entry.raw !== null).map((entry) => entry.unit));
+    const sharedUnit = units.size === 1 ? [...units][0] : null;
+
+    const values = normalized.map(({ productId, raw, value }) => ({
+      productId,
+      raw,
+      value: units.size <= 1 ? value : raw,
+    }));
+
+    return {
+      key,
+      label: pickLabel(products, key, field?.label) ?? field?.label ?? humanize(key),
+      unit: sharedUnit,
+      values,
+      differs: values.some((entry) => !isEqual(entry.value, values[0].value)),
+    };
+  });
+};
@@ -0,0 +1,127 @@
+import { and, asc, eq, inArray, max } from "drizzle-orm";
+import { db, type DbExecutor } from "../db";
+import { productImages } from "../db/schema";
+import type { ProcessedImage } from "./image-processing.service";
+import { resolveUrl, resolveUrls } from "./storage";
+
+export type ProductImage = typeof productImages.$inferSelect;
+
+/**
+ * Replaces the stored keys of images with URLs the client can load
+ */
+export const presentImages = (images: ProductImage[]) =>
+  Promise.all(
+    images.map(async (image) => ({
+      ...image,
+      url: (await resolveUrl(image.url)) ?? image.url,
+      variants: await resolveUrls(image.variants),
+    }))
+  );
+
+/**
+ * Loads the images of the given products ordered by position
+ */
+export const getImagesForProducts = async (
+  productIds: number[],
+  executor: DbExecutor = db
+): Promise<Map<number, ProductImage[]>> => {
+  const imagesByProduct = new Map<number, ProductImage[]>(
+    productIds.map((id) => [id, []])
+  );
+
+  if (productIds.length === 0) {
+    return imagesByProduct;
+  }
+
+  const rows = await executor
+    .select()
+    .from(productImages)
+    .where(inArray(productImages.productId, productIds))
+    .orderBy(asc(productImages.position), asc(productImages.id));
+
+  for (const row of rows) {
+    imagesByProduct.get(row.productId)?.push(row);
+  }
+
+  return imagesByProduct;
+};
+
+/**
+ * Attaches images to a list of products in a single query
+ */
+export const withImages = async <T extends { id: number }>(
+  products: T[],
+  executor: DbExecutor = db
+) => {
+  const imagesByProduct = await getImagesForProducts(
+    products.map((prod) => prod.id),
+    executor
+  );
+
+  return Promise.all(
+    products.map(async (prod) => ({
+      ...prod,
+      images: await presentImages(imagesByProduct.get(prod.id) ?? []),
+    }))
+  );
+};
+
+/**
+ * Appends images after the existing ones. The first image of a product
+ * without a primary image becomes primary.
+ */
+export const addProductImages = async (
+  executor: DbExecutor,
+  productId: number,
+  images: ProcessedImage[]
+) => {
+  if (images.length === 0) {
+    return [];
+  }
+
+  const [{ lastPosition }] = await executor
+    .select({ lastPosition: max(productImages.position) })
+    .from(productImages)
+    .where(eq(productImages.productId, productId));
+
+  const [primary] = await executor
+    .select({ id: productImages.id })
+    .from(productImages)
+    .where(and(eq(productImages.productId, productId), eq(productImages.isPrimary, true)))
+    .limit(1);
+
+  const startPosition = lastPosition === null ? 0 : lastPosition + 1;
+
+  return executor
+    .insert(productImages)
+    .values(
+      images.map(({ url, variants }, index) => ({
+        productId,
+        url,
+        variants,
+        position: startPosition + index,
+        isPrimary: !primary && index === 0,
+      }))
+    )
+    .returning();
+};
+
+/**
+ * Makes the oldest remaining image primary when a product lost its primary image
+ */
+export const ensurePrimaryImage = async (executor: DbExecutor, productId: number) => {
+  const images = await executor
+    .select()
+    .from(productImages)
+    .where(eq(productImages.productId, productId))
+    .orderBy(asc(productImages.position), asc(productImages.id));
+
+  if (images.length === 0 || images.some((image) => image.isPrimary)) {
+    return;
+  }
+
+  await executor
+    .update(productImages)
+    .set({ isPrimary: true })
+    .where(eq(productImages.id, images[0].id));
+};
@@ -0,0 +1,521 @@
+import { type Request } from "express";
+import { asc, eq, isNotNull, isNull } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "../db";
+import { PRODUCT_STATUSES, category, product, slugHistory, type ProductStatus } from "../db/schema";
+import { AppError, BadRequestError, type ErrorDetail } from "../errors";
+import { getCategoriesForProducts, setProductCategories } from "./product-category.service";
+import {
+  buildMachineDataSchema,
+  getSpecTemplateForCategories,
+  type SpecField,
+} from "./spec-template.service";
+import {
+  generateSlugAvoiding,
+  recordSlugChange,
+  resolveSlugForSave,
+  slugSchema,
+} from "./slug.service";
+import { getProductSnapshot, recordAudit } from "./audit.service";
+import {
+  createProductRevision,
+  diffRevisionData,
+  getCurrentRevisionData,
+} from "./product-revision.service";
+import type { Spreadsheet } from "./spreadsheet.service";
+import {
+  currencySchema,
+  formatPriceTiers,
+  hasPricingInput,
+  priceSchema,
+  resolvePricing,
+  type Pricing,
+} from "./pricing.service";
+
+export const IMPORT_FIELDS = [
+  "slug",
+  "name",
+  "description",
+  "price",
+  "currency",
+  "isContactForPrice",
+  "priceIsStartingFrom",
+  "priceTiers",
+  "status",
+  "categories",
+] as const;
+type ImportField = (typeof IMPORT_FIELDS)[number];
+
+export const MACHINE_DATA_PREFIX = "machineData.";
+const CATEGORY_SEPARATOR = "|";
+export const MAX_IMPORT_ROWS = 5000;
+
+export const IMPORT_MATCH_FIELDS = ["slug", "name"] as const;
+export type ImportMatchBy = (typeof IMPORT_MATCH_FIELDS)[number];
+
+type ProductRow = typeof product.$inferSelect;
+
+const booleanCell = z
+  .string()
+  .transform((value) => value.toLowerCase())
+  .pipe(z.enum(["true", "false", "yes", "no", "1", "0"]))
+  .transform((value) => ["true", "yes", "1"].includes(value));
+
+const importRowSchema = z.object({
+  slug: slugSchema.optional(),
+  name: z.string().min(3, "Name must be at least 3 characters").max(100).optional(),
+  description: z.string().min(10, "Description must be at least 10 characters").optional(),
+  price: priceSchema.optional(),
+  currency: currencySchema.optional(),
+  isContactForPrice: booleanCell.optional(),
+  priceIsStartingFrom: booleanCell.optional(),
+  // Tiers as "<minQuantity>:<price>" separated by |, e.g. "10:950|50:900"
+  priceTiers: z.string().optional(),
+  status: z.enum(PRODUCT_STATUSES).optional(),
+});
+
+type PlannedRow = {
+  row: number;
+  action: "create" | "update";
+  existing?: ProductRow;
+  values: z.infer<typeof importRowSchema>;
+  /** Slug of a created product, given or derived from the name */
+  slug?: string;
+  pricing?: Pricing;
+  categoryIds?: number[];
+  machineData?: Record<string, unknown>;
+};
+
+export type ImportRowResult = {
+  row: number;
+  action: "create" | "update";
+  name: string | null;
+  errors: ErrorDetail[];
+};
+
+const isImportTarget = (target: string) =>
+  IMPORT_FIELDS.includes(target as ImportField) ||
+  (target.startsWith(MACHINE_DATA_PREFIX) && target.length > MACHINE_DATA_PREFIX.length);
+
+/**
+ * Maps spreadsheet columns onto import fields. Columns are used as they are
+ * unless the mapping renames them; unknown columns are ignored.
+ */
+const resolveColumns = (headers: string[], mapping: Record<string, string>) => {
+  const invalidTargets = Object.values(mapping).filter((target) => !isImportTarget(target));
+  if (invalidTargets.length > 0) {
+    throw new BadRequestError(`Unknown mapping targets: ${invalidTargets.join(", ")}`, "INVALID_MAPPING");
+  }
+
+  const columns = new Map<string, string>();
+  const ignoredColumns: string[] = [];
+
+  for (const header of headers) {
+    const target = mapping[header] ?? header;
+    if (isImportTarget(target)) {
+      columns.set(target, header);
+    } else {
+      ignoredColumns.push(header);
+    }
+  }
+
+  return { columns, ignoredColumns };
+};
+
+// Cells of unknown machineData keys are typed by their content
+const inferCellValue = (value: string): unknown => {
+  if (/^(true|false)$/i.test(value)) return value.toLowerCase() === "true";
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  if (/^[[{]/.test(value)) {
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      return value;
+    }
+  }
+  return value;
+};
+
+const coerceCellValue = (value: string, field?: SpecField): unknown => {
+  switch (field?.type) {
+    case undefined:
+      return inferCellValue(value);
+    case "number":
+    case "dimensions": {
+      const number = Number(value.replace(",", "."));
+      return Number.isFinite(number) ? number : value;
+    }
+    case "boolean": {
+      const parsed = booleanCell.safeParse(value);
+      return parsed.success ? parsed.data : value;
+    }
+    default:
+      return value;
+  }
+};
+
+/**
+ * Rebuilds machineData from `machineData.<key>[.<subKey>]` cells
+ */
+const readMachineData = (cells: [string, string][], fields: SpecField[]) => {
+  const fieldsByKey = new Map(fields.map((field) => [field.key, field]));
+  const machineData: Record<string, unknown> = {};
+
+  for (const [target, value] of cells) {
+    const path = target.slice(MACHINE_DATA_PREFIX.length).split(".");
+    const field = fieldsByKey.get(path[0]);
+
+    let node = machineData;
+    for (const key of path.slice(0, -1)) {
+      if (typeof node[key] !== "object" || node[key] === null) node[key] = {};
+      node = node[key] as Record<string, unknown>;
+    }
+    node[path[path.length - 1]] = coerceCellValue(value, field);
+  }
+
+  return machineData;
+};
+
+/**
+ * Flattens machineData into `machineData.<key>` cells, the inverse of readMachineData
+ */
+const flattenMachineData = (value: unknown, prefix = MACHINE_DATA_PREFIX.slice(0, -1)): [string, string][] => {
+  if (value === null || value === undefined) return [];
+  if (typeof value === "object" && !Array.isArray(value)) {
+    return Object.entries(value).flatMap(([key, nested]) => flattenMachineData(nested, `${prefix}.${key}`));
+  }
+  return [[prefix, Array.isArray(value) ? JSON.stringify(value) : String(value)]];
+};
+
+/**
+ * Validates every row of an import and decides whether it creates or updates
+ * a product. Nothing is written.
+ */
+export const planImport = async (
+  sheet: Spreadsheet,
+  { mapping = {}, matchBy }: { mapping?: Record<string, string>; matchBy: ImportMatchBy }
+) => {
+  if (sheet.rows.length > MAX_IMPORT_ROWS) {
+    throw new BadRequestError(`Imports are limited to ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  const { columns, ignoredColumns } = resolveColumns(sheet.headers, mapping);
+  if (!columns.has(matchBy)) {
+    throw new BadRequestError(`A '${matchBy}' column is required to match products`);
+  }
+
+  const existingProducts = await db
+    .select()
+    .from(product)
+    .where(isNull(product.deletedAt))
+    .orderBy(asc(product.id));
+  const existingByKey = new Map(
+    existingProducts.map((prod) => [matchBy === "slug" ? prod.slug : prod.name.toLowerCase(), prod])
+  );
+  const existingCategories = await getCategoriesForProducts(existingProducts.map((prod) => prod.id));
+
+  // Like resolveSlugForSave, slugs of trashed products and old slugs are taken
+  const slugOwners = new Map<string, number>();
+  const previousSlugs = await db
+    .select({ slug: slugHistory.slug, id: slugHistory.entityId })
+    .from(slugHistory)
+    .where(eq(slugHistory.entityType, "product"));
+  const currentSlugs = await db
+    .select({ slug: product.slug, id: product.id })
+    .from(product)
+    .where(isNotNull(product.slug));
+  for (const { slug, id } of [...previousSlugs, ...currentSlugs]) {
+    if (slug) slugOwners.set(slug, id);
+  }
+
+  const categories = await db
+    .select({ id: category.id, name: category.name })
+    .from(category)
+    .where(isNull(category.deletedAt));
+  const categoryIdsByName = new Map(categories.map((cat) => [cat.name.toLowerCase(), cat.id]));
+
+  const templates = new Map<string, SpecField[]>();
+  const getTemplate = async (categoryIds: number[]) => {
+    const key = categoryIds.join(",");
+    if (!templates.has(key)) templates.set(key, await getSpecTemplateForCategories(categoryIds));
+    return templates.get(key)!;
+  };
+
+  const seenKeys = new Map<string, number>();
+  const claimedSlugs = new Map<string, number>();
+  const planned: PlannedRow[] = [];
+  const results: ImportRowResult[] = [];
+
+  for (const [index, sheetRow] of sheet.rows.entries()) {
+    // Row 1 holds the headers
+    const row = index + 2;
+    const errors: ErrorDetail[] = [];
+    const cell = (target: string) => {
+      const value = sheetRow[columns.get(target) ?? ""]?.trim();
+      return value ? value : undefined;
+    };
+
+    const matchValue = cell(matchBy);
+    const matchKey = matchBy === "slug" ? matchValue : matchValue?.toLowerCase();
+    const existing = matchKey ? existingByKey.get(matchKey) : undefined;
+    const action = existing ? "update" : "create";
+
+    if (matchKey) {
+      const firstRow = seenKeys.get(matchKey);
+      if (firstRow !== undefined) {
+        errors.push({ path: matchBy, message: `Duplicate of row ${firstRow}` });
+      }
+      seenKeys.set(matchKey, row);
+    }
+
+    const parsed = importRowSchema.safeParse(
+      Object.fromEntries(
+        importRowSchema.keyof().options.map((field) => [field, cell(field)])
+      )
+    );
+    const values = parsed.success ? parsed.data : {};
+    if (!parsed.success) {
+      errors.push(
+        ...parsed.error.errors.map((err) => ({ path: err.path.join("."), message: err.message }))
+      );
+    }
+
+    if (values.slug !== undefined && values.slug !== existing?.slug) {
+      const owner = slugOwners.get(values.slug);
+      const firstRow = claimedSlugs.get(values.slug);
+      if (owner !== undefined && owner !== existing?.id) {
+        errors.push({ path: "slug", message: `Slug '${values.slug}' is already in use` });
+      } else if (firstRow !== undefined && matchBy !== "slug") {
+        // Duplicate match keys are reported above
+        errors.push({ path: "slug", message: `Slug '${values.slug}' is also used in row ${firstRow}` });
+      }
+      claimedSlugs.set(values.slug, claimedSlugs.get(values.slug) ?? row);
+    }
+
+    if (action === "create") {
+      if (!cell("name")) errors.push({ path: "name", message: "Name is required for new products" });
+      if (!cell("description")) errors.push({ path: "description", message: "Description is required for new products" });
+    }
+
+    // New products always get validated pricing, updates only when a price cell is set
+    let pricing: Pricing | undefined;
+    const pricingInput = {
+      price: values.price,
+      currency: values.currency,
+      isContactForPrice: values.isContactForPrice,
+      priceIsStartingFrom: values.priceIsStartingFrom,
+      priceTiers: values.priceTiers,
+    };
+    if (parsed.success && (action === "create" || hasPricingInput(pricingInput))) {
+      try {
+        pricing = resolvePricing(pricingInput, existing);
+      } catch (error) {
+        if (!(error instanceof AppError)) throw error;
+        errors.push(...(error.details ?? [{ path: "priceTiers", message: error.message }]));
+      }
+    }
+
+    let categoryIds: number[] | undefined;
+    const categoryNames = cell("categories");
+    if (categoryNames !== undefined) {
+      const names = categoryNames.split(CATEGORY_SEPARATOR).map((name) => name.trim()).filter(Boolean);
+      const unknownNames = names.filter((name) => !categoryIdsByName.has(name.toLowerCase()));
+      if (unknownNames.length > 0) {
+        errors.push({ path: "categories", message: `Unknown categories: ${unknownNames.join(", ")}` });
+      }
+      categoryIds = [
+        ...new Set(names.flatMap((name) => categoryIdsByName.get(name.toLowerCase()) ?? [])),
+      ];
+    }
+
+    const finalCategoryIds =
+      categoryIds ?? (existing ? (existingCategories.get(existing.id) ?? []).map((cat) => cat.id) : []);
+    const fields = await getTemplate(finalCategoryIds);
+
+    const machineDataCells = [...columns.keys()]
+      .filter((target) => target.startsWith(MACHINE_DATA_PREFIX))
+      .flatMap((target) => {
+        const value = cell(target);
+        return value === undefined ? [] : [[target, value] as [string, string]];
+      });
+    const providedMachineData = readMachineData(machineDataCells, fields);
+
+    // Like PUT /products/:id, given keys are merged into the existing machineData
+    const machineData = {
+      ...((existing?.machineData ?? {}) as Record<string, unknown>),
+      ...providedMachineData,
+    };
+    const machineDataResult = buildMachineDataSchema(fields).safeParse(machineData);
+    if (!machineDataResult.success) {
+      errors.push(
+        ...machineDataResult.error.errors.map((err) => ({
+          path: ["machineData", ...err.path].join("."),
+          message: err.message,
+        }))
+      );
+    }
+
+    results.push({ row, action, name: values.name ?? existing?.name ?? null, errors });
+
+    if (errors.length === 0) {
+      planned.push({
+        row,
+        action,
+        existing,
+        values,
+        pricing,
+        categoryIds,
+        machineData:
+          action === "create" || machineDataCells.length > 0 || categoryIds !== undefined
+            ? (machineDataResult.data as Record<string, unknown>)
+            : undefined,
+      });
+    }
+  }
+
+  // Slugs derived from names must not collide with slugs given in any row,
+  // including later ones, so they are assigned once all rows are known
+  for (const plannedRow of planned) {
+    if (plannedRow.action !== "create") continue;
+    plannedRow.slug =
+      plannedRow.values.slug ??
+      generateSlugAvoiding(plannedRow.values.name!, (slug) => slugOwners.has(slug) || claimedSlugs.has(slug));
+    claimedSlugs.set(plannedRow.slug, claimedSlugs.get(plannedRow.slug) ?? plannedRow.row);
+  }
+
+  return {
+    matchBy,
+    ignoredColumns,
+    planned,
+    results,
+    summary: {
+      total: results.length,
+      create: results.filter((result) => result.action === "create" && result.errors.length === 0).length,
+      update: results.filter((result) => result.action === "update" && result.errors.length === 0).length,
+      failed: results.filter((result) => result.errors.length > 0).length,
+    },
+  };
+};
+
+export type ImportPlan = Awaited<ReturnType<typeof planImport>>;
+
+/**
+ * Writes a fully valid import plan in one transaction
+ */
+export const applyImport = (plan: ImportPlan, req: Request) =>
+  db.transaction(async (tx) => {
+    for (const { action, existing, values, slug, pricing, categoryIds, machineData } of plan.planned) {
+      if (action === "create") {
+        const [created] = await tx
+          .insert(product)
+          .values({
+            name: values.name!,
+            slug: await resolveSlugForSave(tx, "product", { name: values.name!, slug }),
+            description: values.description!,
+            ...pricing!,
+            status: (values.status ?? "draft") as ProductStatus,
+            machineData: machineData ?? {},
+            showInHero: false,
+            heroIndex: 0,
+          })
+          .returning();
+
+        await setProductCategories(tx, created.id, categoryIds ?? []);
+
+        await recordAudit(tx, req, {
+          entityType: "product",
+          entityId: created.id,
+          action: "create",
+          before: null,
+          after: await getProductSnapshot(created.id, tx),
+        });
+        continue;
+      }
+
+      const current = existing!;
+      const before = await getProductSnapshot(current.id, tx);
+      const previousRevision = await getCurrentRevisionData(current, tx);
+
+      const updateData: Partial<ProductRow> = {};
+      if (values.name) updateData.name = values.name;
+      if (values.description) updateData.description = values.description;
+      if (pricing) Object.assign(updateData, pricing);
+      if (values.status) updateData.status = values.status;
+      if (machineData !== undefined) updateData.machineData = machineData;
+
+      // Slugs are kept on renames so that the next import still matches,
+      // they only change through the slug column when matching by name
+      if (plan.matchBy === "name" && values.slug !== undefined && values.slug !== current.slug) {
+        updateData.slug = await resolveSlugForSave(tx, "product", {
+          name: current.name,
+          slug: values.slug,
+          id: current.id,
+        });
+        await recordSlugChange(tx, "product", current.id, current.slug, updateData.slug);
+      }
+
+      const [updated] = Object.keys(updateData).length > 0
+        ? await tx
+            .update(product)
+            .set(updateData)
+            .where(eq(product.id, current.id))
+            .returning()
+        : [current];
+
+      if (categoryIds !== undefined) {
+        await setProductCategories(tx, current.id, categoryIds);
+      }
+
+      const currentRevision = await getCurrentRevisionData(updated, tx);
+      if (Object.keys(diffRevisionData(previousRevision, currentRevision)).length > 0) {
+        await createProductRevision(tx, current.id, previousRevision, req.user?.userId ?? null);
+      }
+
+      await recordAudit(tx, req, {
+        entityType: "product",
+        entityId: current.id,
+        action: "update",
+        before,
+        after: await getProductSnapshot(current.id, tx),
+      });
+    }
+  });
+
+/**
+ * Exports all products that are not in the trash in the import format
+ */
+export const exportProducts = async (): Promise<Spreadsheet> => {
+  const products = await db
+    .select()
+    .from(product)
+    .where(isNull(product.deletedAt))
+    .orderBy(asc(product.id));
+  const categoriesByProduct = await getCategoriesForProducts(products.map((prod) => prod.id));
+
+  const machineDataColumns = new Set<string>();
+  const rows = products.map((prod) => {
+    const machineDataCells = flattenMachineData(prod.machineData);
+    machineDataCells.forEach(([column]) => machineDataColumns.add(column));
+
+    return {
+      slug: prod.slug ?? "",
+      name: prod.name,
+      description: prod.description,
+      price: prod.price ?? "",
+      currency: prod.currency,
+      isContactForPrice: String(prod.isContactForPrice ?? false),
+      priceIsStartingFrom: String(prod.priceIsStartingFrom),
+      priceTiers: formatPriceTiers(prod.priceTiers),
+      status: prod.status,
+      categories: (categoriesByProduct.get(prod.id) ?? [])
+        .map((cat) => cat.name)
+        .join(CATEGORY_SEPARATOR),
+      ...Object.fromEntries(machineDataCells),
+    };
+  });
+
+  return {
+    headers: [...IMPORT_FIELDS, ...[...machineDataColumns].sort()],
+    rows,
+  };
+};
@@ -0,0 +1,85 @@
+import { and, desc, eq, max } from "drizzle-orm";
+import { db, type DbExecutor } from "../db";
+import { product, productRevisions, users, type ProductRevisionData } from "../db/schema";
+import { getCategoryIdsForProduct } from "./product-category.service";
+import { diffSnapshots } from "./audit.service";
+
+type ProductRow = typeof product.$inferSelect;
+
+/**
+ * Picks the versioned fields of a product
+ */
+export const toRevisionData = (row: ProductRow, categoryIds: number[]): ProductRevisionData => ({
+  name: row.name,
+  description: row.description,
+  price: row.price,
+  isContactForPrice: row.isContactForPrice,
+  currency: row.currency,
+  priceIsStartingFrom: row.priceIsStartingFrom,
+  priceTiers: row.priceTiers,
+  machineData: row.machineData,
+  categoryIds: [...categoryIds].sort((a, b) => a - b),
+});
+
+export const getCurrentRevisionData = async (row: ProductRow, executor: DbExecutor = db) =>
+  toRevisionData(row, await getCategoryIdsForProduct(row.id, executor));
+
+export const diffRevisionData = (from: ProductRevisionData, to: ProductRevisionData) =>
+  diffSnapshots(from, to);
+
+/**
+ * Stores the given state, usually the one before an update, as the next
+ * revision of the product
+ */
+export const createProductRevision = async (
+  executor: DbExecutor,
+  productId: number,
+  data: ProductRevisionData,
+  userId: number | null
+) => {
+  const [{ latest }] = await executor
+    .select({ latest: max(productRevisions.revision) })
+    .from(productRevisions)
+    .where(eq(productRevisions.productId, productId));
+
+  const [created] = await executor
+    .insert(productRevisions)
+    .values({
+      productId,
+      revision: (latest ?? 0) + 1,
+      data,
+      createdBy: userId,
+    })
+    .returning();
+
+  return created;
+};
+
+/**
+ * Lists the revisions of a product, newest first, without their data
+ */
+export const listProductRevisions = (productId: number) =>
+  db
+    .select({
+      revision: productRevisions.revision,
+      createdAt: productRevisions.createdAt,
+      createdBy: { id: users.id, username: users.username },
+    })
+    .from(productRevisions)
+    .leftJoin(users, eq(productRevisions.createdBy, users.id))
+    .where(eq(productRevisions.productId, productId))
+    .orderBy(desc(productRevisions.revision));
+
+export const getProductRevision = async (
+  productId: number,
+  revision: number,
+  executor: DbExecutor = db
+) => {
+  const [found] = await executor
+    .select()
+    .from(productRevisions)
+    .where(and(eq(productRevisions.productId, productId), eq(productRevisions.revision, revision)))
+    .limit(1);
+
+  return found;
+};
@@ -0,0 +1,33 @@
+import { and, eq, isNull, lte, or } from "drizzle-orm";
+import { db, type DbExecutor } from "../db";
+import { product } from "../db/schema";
+import { withCategories } from "./product-category.service";
+import { withImages } from "./product-image.service";
+import { localizeProducts } from "./translation.service";
+import { withConvertedPrices } from "./pricing.service";
+
+/**
+ * Attaches categories and images to products for API responses
+ */
+export const hydrateProducts = async <T extends { id: number }>(
+  products: T[],
+  executor: DbExecutor = db
+) => withImages(await withCategories(products, executor), executor);
+
+/**
+ * Prepares products for public reads: hydrated, translated along the locale
+ * chain and, when a currency is given, with converted prices
+ */
+export const presentProducts = async (
+  products: (typeof product.$inferSelect)[],
+  { locales, currency }: { locales: string[]; currency?: string }
+) => withConvertedPrices(await localizeProducts(await hydrateProducts(products), locales), currency);
+
+/**
+ * Matches products that are published and whose publish time has come
+ */
+export const isPublished = () =>
+  and(
+    eq(product.status, "published"),
+    or(isNull(product.publishAt), lte(product.publishAt, new Date()))
+  )!;
@@ -0,0 +1,25 @@
+import "dotenv/config";
+import Redis from "ioredis";
+import { createMemoryStore } from "./memory.store";
+import { createRedisStore } from "./redis.store";
+import type { RateLimitStore } from "./rate-limit.types";
+
+export type { RateLimitHit, RateLimitStore } from "./rate-limit.types";
+export { createMemoryStore } from "./memory.store";
+export { createRedisStore, type RedisLikeClient } from "./redis.store";
+
+const createStore = (): RateLimitStore => {
+  switch (process.env.RATE_LIMIT_STORE || "memory") {
+    case "memory":
+      return createMemoryStore();
+    case "redis":
+      if (!process.env.REDIS_URL) {
+        throw new Error("REDIS_URL is required when RATE_LIMIT_STORE=redis");
+      }
+      return createRedisStore(new Redis(process.env.REDIS_URL));
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE '${process.env.RATE_LIMIT_STORE}'`);
+  }
+};
+
+export const rateLimitStore = createStore();
@@ -0,0 +1,51 @@
+import type { RateLimitHit, RateLimitStore } from "./rate-limit.types";
+
+const CLEANUP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Keeps counters in process memory. Counters are not shared between API
+ * instances, use the Redis store for that.
+ */
+export const createMemoryStore = (): RateLimitStore => {
+  const hits = new Map<string, { count: number; resetAt: number }>();
+
+  const cleanup = setInterval(() => {
+    const now = Date.now();
+    for (const [key, entry] of hits) {
+      if (entry.resetAt <= now) hits.delete(key);
+    }
+  }, CLEANUP_INTERVAL_MS);
+  cleanup.unref();
+
+  const getActive = (key: string) => {
+    const entry = hits.get(key);
+    if (!entry || entry.resetAt <= Date.now()) {
+      hits.delete(key);
+      return null;
+    }
+    return entry;
+  };
+
+  const toHit = (entry: { count: number; resetAt: number }): RateLimitHit => ({
+    count: entry.count,
+    resetAt: new Date(entry.resetAt),
+  });
+
+  return {
+    async increment(key, windowMs) {
+      const entry = getActive(key) ?? { count: 0, resetAt: Date.now() + windowMs };
+      entry.count++;
+      hits.set(key, entry);
+      return toHit(entry);
+    },
+
+    async get(key) {
+      const entry = getActive(key);
+      return entry ? toHit(entry) : null;
+    },
+
+    async reset(key) {
+      hits.delete(key);
+    },
+  };
+};
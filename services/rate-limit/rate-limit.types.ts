@@ -0,0 +1,15 @@
+export interface RateLimitHit {
+  /** Number of hits in the current window, including this one */
+  count: number;
+  /** When the current window ends */
+  resetAt: Date;
+}
+
+export interface RateLimitStore {
+  /** Counts a hit for the key, starting a new window when none is active */
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+  /** Returns the active window of the key without counting a hit */
+  get(key: string): Promise<RateLimitHit | null>;
+  /** Clears the key */
+  reset(key: string): Promise<void>;
+}
@@ -0,0 +1,42 @@
+import type { RateLimitStore } from "./rate-limit.types";
+
+/** The subset of a Redis client (ioredis, node-redis v4 legacy mode, ...) used by the store */
+export interface RedisLikeClient {
+  incr(key: string): Promise<number>;
+  pexpire(key: string, milliseconds: number): Promise<number>;
+  pttl(key: string): Promise<number>;
+  get(key: string): Promise<string | null>;
+  del(key: string): Promise<number>;
+}
+
+/**
+ * Keeps counters in Redis so that limits are shared between API instances
+ */
+export const createRedisStore = (client: RedisLikeClient, prefix = "rate-limit:"): RateLimitStore => ({
+  async increment(key, windowMs) {
+    const redisKey = prefix + key;
+    const count = await client.incr(redisKey);
+
+    let ttl = await client.pttl(redisKey);
+    if (count === 1 || ttl < 0) {
+      await client.pexpire(redisKey, windowMs);
+      ttl = windowMs;
+    }
+
+    return { count, resetAt: new Date(Date.now() + ttl) };
+  },
+
+  async get(key) {
+    const redisKey = prefix + key;
+    const [value, ttl] = await Promise.all([client.get(redisKey), client.pttl(redisKey)]);
+    if (value === null || ttl < 0) {
+      return null;
+    }
+
+    return { count: Number(value), resetAt: new Date(Date.now() + ttl) };
+  },
+
+  async reset(key) {
+    await client.del(prefix + key);
+  },
+});
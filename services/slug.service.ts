@@ -0,0 +1,181 @@
+import { and, eq, ne } from "drizzle-orm";
+import { z } from "zod";
+import { db, type DbExecutor } from "../db";
+import { category, product, slugHistory, type SlugEntity } from "../db/schema";
+import { ConflictError } from "../errors";
+
+const MAX_SLUG_LENGTH = 100;
+
+export const slugSchema = z
+  .string()
+  .max(MAX_SLUG_LENGTH)
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Slug may only contain lowercase letters, digits and single dashes");
+
+const tables = { product, category };
+
+/**
+ * Turns a name into a URL friendly slug, e.g. "Fräsmaschine X 200" -> "frasmaschine-x-200"
+ */
+export const slugify = (value: string) =>
+  value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/, "") || "item";
+
+/**
+ * A slug is taken when another record uses it now or used it before,
+ * so that old URLs keep pointing to the same record
+ */
+const isSlugTaken = async (
+  executor: DbExecutor,
+  entityType: SlugEntity,
+  slug: string,
+  exceptId?: number
+) => {
+  const table = tables[entityType];
+
+  const [current] = await executor
+    .select({ id: table.id })
+    .from(table)
+    .where(exceptId === undefined ? eq(table.slug, slug) : and(eq(table.slug, slug), ne(table.id, exceptId)))
+    .limit(1);
+
+  if (current) {
+    return true;
+  }
+
+  const [previous] = await executor
+    .select({ entityId: slugHistory.entityId })
+    .from(slugHistory)
+    .where(and(eq(slugHistory.entityType, entityType), eq(slugHistory.slug, slug)))
+    .limit(1);
+
+  return previous !== undefined && previous.entityId !== exceptId;
+};
+
+const slugCandidate = (base: string, suffix: number) =>
+  suffix === 1 ? base : `${base.slice(0, MAX_SLUG_LENGTH - 6)}-${suffix}`;
+
+/**
+ * Derives a unique slug from a name by appending -2, -3, ... on collisions
+ */
+export const generateUniqueSlug = async (
+  executor: DbExecutor,
+  entityType: SlugEntity,
+  name: string,
+  exceptId?: number
+) => {
+  const base = slugify(name);
+
+  for (let suffix = 1; ; suffix++) {
+    const candidate = slugCandidate(base, suffix);
+    if (!(await isSlugTaken(executor, entityType, candidate, exceptId))) {
+      return candidate;
+    }
+  }
+};
+
+/**
+ * Like generateUniqueSlug, for callers that already know the taken slugs
+ */
+export const generateSlugAvoiding = (name: string, isTaken: (slug: string) => boolean) => {
+  const base = slugify(name);
+
+  for (let suffix = 1; ; suffix++) {
+    const candidate = slugCandidate(base, suffix);
+    if (!isTaken(candidate)) {
+      return candidate;
+    }
+  }
+};
+
+/**
+ * Resolves the slug of a record: an explicit override must be free, otherwise
+ * one is generated from the name. Throws a ConflictError for a taken override.
+ */
+export const resolveSlugForSave = async (
+  executor: DbExecutor,
+  entityType: SlugEntity,
+  { name, slug, id }: { name: string; slug?: string; id?: number }
+) => {
+  if (slug === undefined) {
+    return generateUniqueSlug(executor, entityType, name, id);
+  }
+
+  if (await isSlugTaken(executor, entityType, slug, id)) {
+    throw new ConflictError(`Slug '${slug}' is already in use`, "SLUG_TAKEN");
+  }
+
+  return slug;
+};
+
+/**
+ * Keeps the previous slug of a record so that it redirects to the new one
+ */
+export const recordSlugChange = async (
+  executor: DbExecutor,
+  entityType: SlugEntity,
+  entityId: number,
+  previousSlug: string | null,
+  nextSlug: string
+) => {
+  if (!previousSlug || previousSlug === nextSlug) {
+    return;
+  }
+
+  // A record can take back one of its own old slugs
+  await executor
+    .delete(slugHistory)
+    .where(
+      and(
+        eq(slugHistory.entityType, entityType),
+        eq(slugHistory.entityId, entityId),
+        eq(slugHistory.slug, nextSlug)
+      )
+    );
+
+  await executor
+    .insert(slugHistory)
+    .values({ entityType, entityId, slug: previousSlug })
+    .onConflictDoNothing();
+};
+
+/**
+ * Finds the id of the record that uses or used a slug. `redirect` is set
+ * when the slug is an old one.
+ */
+export const findBySlug = async (entityType: SlugEntity, slug: string) => {
+  const table = tables[entityType];
+
+  const [current] = await db
+    .select({ id: table.id })
+    .from(table)
+    .where(eq(table.slug, slug))
+    .limit(1);
+
+  if (current) {
+    return { id: current.id, redirect: false };
+  }
+
+  const [previous] = await db
+    .select({ entityId: slugHistory.entityId })
+    .from(slugHistory)
+    .where(and(eq(slugHistory.entityType, entityType), eq(slugHistory.slug, slug)))
+    .limit(1);
+
+  return previous ? { id: previous.entityId, redirect: true } : null;
+};
+
+export const deleteSlugHistory = async (
+  executor: DbExecutor,
+  entityType: SlugEntity,
+  entityId: number
+) => {
+  await executor
+    .delete(slugHistory)
+    .where(and(eq(slugHistory.entityType, entityType), eq(slugHistory.entityId, entityId)));
+};
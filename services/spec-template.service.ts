@@ -0,0 +1,143 @@
+import { and, inArray, isNull } from "drizzle-orm";
+import { z } from "zod";
+import { db, type DbExecutor } from "../db";
+import { category } from "../db/schema";
+import { ValidationError } from "../errors";
+
+export const SPEC_FIELD_TYPES = ["number", "string", "boolean", "enum", "dimensions"] as const;
+
+export const specFieldSchema = z
+  .object({
+    key: z
+      .string()
+      .regex(/^[a-zA-Z][a-zA-Z0-9_]*$/, "Key must start with a letter and contain only letters, digits and underscores")
+      .max(50),
+    label: z.string().min(1).max(100),
+    type: z.enum(SPEC_FIELD_TYPES),
+    unit: z.string().max(20).optional(),
+    required: z.boolean().default(false),
+    options: z.array(z.string().min(1)).min(1).optional(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+  })
+  .refine((field) => field.type !== "enum" || field.options, {
+    message: "Enum fields need options",
+    path: ["options"],
+  });
+
+export const specTemplateSchema = z
+  .array(specFieldSchema)
+  .refine((fields) => new Set(fields.map((field) => field.key)).size === fields.length, {
+    message: "Field keys must be unique",
+  });
+
+export type SpecField = z.infer<typeof specFieldSchema>;
+
+/**
+ * Merges the templates of several categories. A field defined by more than
+ * one category keeps its first definition and is required if any category
+ * requires it.
+ */
+export const mergeSpecTemplates = (templates: SpecField[][]) => {
+  const fields = new Map<string, SpecField>();
+
+  for (const template of templates) {
+    for (const field of template) {
+      const existing = fields.get(field.key);
+      if (existing) {
+        existing.required ||= field.required;
+      } else {
+        fields.set(field.key, { ...field });
+      }
+    }
+  }
+
+  return [...fields.values()];
+};
+
+export const getSpecTemplateForCategories = async (
+  categoryIds: number[],
+  executor: DbExecutor = db
+) => {
+  if (categoryIds.length === 0) {
+    return [];
+  }
+
+  const rows = await executor
+    .select({ id: category.id, specTemplate: category.specTemplate })
+    .from(category)
+    .where(and(inArray(category.id, categoryIds), isNull(category.deletedAt)));
+
+  // Keep the order in which the categories were assigned
+  const templates = categoryIds.map(
+    (id) => rows.find((row) => row.id === id)?.specTemplate ?? []
+  );
+
+  return mergeSpecTemplates(templates);
+};
+
+const numberSchema = (field: SpecField) => {
+  let schema = z.number({ invalid_type_error: `${field.label} must be a number` });
+  if (field.min !== undefined) schema = schema.min(field.min);
+  if (field.max !== undefined) schema = schema.max(field.max);
+  return schema;
+};
+
+const fieldValueSchema = (field: SpecField): z.ZodTypeAny => {
+  switch (field.type) {
+    case "number":
+      return numberSchema(field);
+    case "string":
+      return z.string().min(1);
+    case "boolean":
+      return z.boolean();
+    case "enum":
+      return z.enum(field.options as [string, ...string[]]);
+    case "dimensions":
+      return z.object({
+        length: numberSchema(field),
+        width: numberSchema(field),
+        height: numberSchema(field),
+      });
+  }
+};
+
+/**
+ * Builds a schema for machineData from a template. Keys that are not part of
+ * the template are kept as they are.
+ */
+export const buildMachineDataSchema = (fields: SpecField[]) =>
+  z
+    .object(
+      Object.fromEntries(
+        fields.map((field) => {
+          const schema = fieldValueSchema(field);
+          return [field.key, field.required ? schema : schema.nullish()];
+        })
+      )
+    )
+    .passthrough();
+
+/**
+ * Validates machineData against the merged templates of the given categories
+ */
+export const validateMachineData = async (
+  machineData: unknown,
+  categoryIds: number[],
+  executor: DbExecutor = db
+) => {
+  const fields = await getSpecTemplateForCategories(categoryIds, executor);
+  const result = buildMachineDataSchema(fields).safeParse(machineData);
+
+  if (!result.success) {
+    throw new ValidationError(
+      result.error.errors.map((err) => ({
+        path: ["machineData", ...err.path].join("."),
+        message: err.message,
+      })),
+      "Machine data does not match the category specification"
+    );
+  }
+
+  return result.data;
+};
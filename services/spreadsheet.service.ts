@@ -0,0 +1,125 @@
+import ExcelJS from "exceljs";
+import Papa from "papaparse";
+import { BadRequestError } from "../errors";
+
+export const SPREADSHEET_FORMATS = ["csv", "xlsx"] as const;
+export type SpreadsheetFormat = (typeof SPREADSHEET_FORMATS)[number];
+
+export const SPREADSHEET_CONTENT_TYPES: Record<SpreadsheetFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+export type SpreadsheetRow = Record<string, string>;
+
+export type Spreadsheet = {
+  headers: string[];
+  rows: SpreadsheetRow[];
+};
+
+// Cells starting with one of these are run as formulas by spreadsheet programs
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Keeps exported cells from turning into formulas by prefixing them with '
+ */
+const escapeFormula = (value: string) => (FORMULA_PREFIX.test(value) ? `'${value}` : value);
+
+// Reverts escapeFormula on import
+const unescapeFormula = (value: string) =>
+  value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+
+// XLSX files are zip archives
+const isXlsx = (buffer: Buffer) => buffer.length > 4 && buffer.readUInt32BE(0) === 0x504b0304;
+
+const cellToString = (value: ExcelJS.CellValue): string => {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value !== "object") return String(value);
+  if ("richText" in value) return value.richText.map((part) => part.text).join("");
+  if ("text" in value) return String(value.text);
+  if ("result" in value) return cellToString(value.result as ExcelJS.CellValue);
+  return "";
+};
+
+const readCsv = (buffer: Buffer): Spreadsheet => {
+  const result = Papa.parse<SpreadsheetRow>(buffer.toString("utf8").replace(/^\uFEFF/, ""), {
+    header: true,
+    skipEmptyLines: "greedy",
+    transformHeader: (header) => header.trim(),
+    transform: unescapeFormula,
+  });
+
+  const fatalError = result.errors.find((error) => error.type !== "FieldMismatch");
+  if (fatalError) {
+    throw new BadRequestError(`Invalid CSV on row ${(fatalError.row ?? 0) + 2}: ${fatalError.message}`, "INVALID_SPREADSHEET");
+  }
+
+  return { headers: result.meta.fields ?? [], rows: result.data };
+};
+
+const readXlsx = async (buffer: Buffer): Promise<Spreadsheet> => {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+  } catch (error) {
+    throw new BadRequestError("Invalid XLSX file", "INVALID_SPREADSHEET");
+  }
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) {
+    return { headers: [], rows: [] };
+  }
+
+  const headers: string[] = [];
+  sheet.getRow(1).eachCell((cell, column) => {
+    headers[column - 1] = cellToString(cell.value).trim();
+  });
+
+  const rows: SpreadsheetRow[] = [];
+  sheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+
+    const values: SpreadsheetRow = {};
+    headers.forEach((header, index) => {
+      if (header) values[header] = unescapeFormula(cellToString(row.getCell(index + 1).value));
+    });
+
+    if (Object.values(values).some((value) => value.trim() !== "")) {
+      rows.push(values);
+    }
+  });
+
+  return { headers: headers.filter(Boolean), rows };
+};
+
+/**
+ * Reads the first sheet of an XLSX file or a CSV file with a header row
+ */
+export const readSpreadsheet = async (buffer: Buffer): Promise<Spreadsheet> =>
+  isXlsx(buffer) ? readXlsx(buffer) : readCsv(buffer);
+
+/**
+ * Writes rows in the given format, columns in the order of `headers`.
+ * Cells that would start a formula are prefixed with ', readSpreadsheet strips it.
+ */
+export const writeSpreadsheet = async (
+  format: SpreadsheetFormat,
+  { headers, rows }: Spreadsheet
+): Promise<Buffer> => {
+  const data = rows.map((row) => headers.map((header) => escapeFormula(row[header] ?? "")));
+
+  if (format === "csv") {
+    return Buffer.from(Papa.unparse({ fields: headers, data }));
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet("Products");
+  sheet.addRow(headers);
+  sheet.getRow(1).font = { bold: true };
+  for (const row of data) {
+    sheet.addRow(row);
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+};
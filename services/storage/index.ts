@@ -0,0 +1,89 @@
+import "dotenv/config";
+import path from "path";
+import { createLocalStorage } from "./local.driver";
+import { createS3Storage } from "./s3.driver";
+import type { StorageDriver } from "./storage.types";
+
+export type { StorageDriver } from "./storage.types";
+
+export const STORAGE_DRIVER = process.env.STORAGE_DRIVER || "local";
+export const LOCAL_UPLOAD_DIR = path.join(process.cwd(), "uploads");
+const LOCAL_URL_PREFIX = "/uploads";
+
+const createStorage = (): StorageDriver => {
+  switch (STORAGE_DRIVER) {
+    case "local":
+      return createLocalStorage({
+        rootDir: LOCAL_UPLOAD_DIR,
+        publicUrl: process.env.STORAGE_PUBLIC_URL || LOCAL_URL_PREFIX,
+      });
+    case "s3":
+      if (!process.env.S3_BUCKET) {
+        throw new Error("S3_BUCKET is required when STORAGE_DRIVER=s3");
+      }
+      return createS3Storage({
+        bucket: process.env.S3_BUCKET,
+        region: process.env.S3_REGION || "us-east-1",
+        endpoint: process.env.S3_ENDPOINT,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+        publicUrl: process.env.STORAGE_PUBLIC_URL,
+        signedUrlExpiresIn: Number(process.env.S3_SIGNED_URL_EXPIRES_IN) || 3600,
+      });
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER '${STORAGE_DRIVER}'`);
+  }
+};
+
+export const storage = createStorage();
+
+/**
+ * Normalizes a stored value to a storage key. Older rows contain local
+ * URLs such as `/uploads/products/<file>`.
+ */
+export const toStorageKey = (stored: string) =>
+  stored.startsWith(`${LOCAL_URL_PREFIX}/`)
+    ? stored.slice(LOCAL_URL_PREFIX.length + 1)
+    : stored.replace(/^\//, "");
+
+/**
+ * Turns a stored key into a URL the client can load. Absolute URLs are kept as is.
+ */
+export const resolveUrl = async (stored: string | null) => {
+  if (!stored) {
+    return stored;
+  }
+  if (/^https?:\/\//.test(stored)) {
+    return stored;
+  }
+  return storage.getUrl(toStorageKey(stored));
+};
+
+export const resolveUrls = async <T extends Record<string, string>>(urls: T | null) => {
+  if (!urls) {
+    return urls;
+  }
+
+  const entries = await Promise.all(
+    Object.entries(urls).map(async ([name, stored]) => [name, await resolveUrl(stored)])
+  );
+  return Object.fromEntries(entries) as T;
+};
+
+/**
+ * Deletes stored files, logging failures instead of throwing
+ */
+export const deleteStoredFiles = async (storedValues: string[]) => {
+  await Promise.all(
+    storedValues
+      .filter((stored) => stored && !/^https?:\/\//.test(stored))
+      .map(async (stored) => {
+        try {
+          await storage.delete(toStorageKey(stored));
+        } catch (error) {
+          console.error(`Error deleting file: ${stored}`, error);
+        }
+      })
+  );
+};
@@ -0,0 +1,38 @@
+import path from "path";
+import fs from "fs/promises";
+import type { StorageDriver } from "./storage.types";
+
+type LocalStorageOptions = {
+  rootDir: string;
+  publicUrl: string;
+};
+
+/**
+ * Stores files on the local disk. The files are served by the API itself,
+ * so this driver only suits a single instance.
+ */
+export const createLocalStorage = ({ rootDir, publicUrl }: LocalStorageOptions): StorageDriver => {
+  const resolvePath = (key: string) => {
+    const filePath = path.resolve(rootDir, key);
+    if (!filePath.startsWith(path.resolve(rootDir) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    async put(key, body) {
+      const filePath = resolvePath(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, body);
+    },
+
+    async delete(key) {
+      await fs.rm(resolvePath(key), { force: true });
+    },
+
+    async getUrl(key) {
+      return `${publicUrl.replace(/\/$/, "")}/${key}`;
+    },
+  };
+};
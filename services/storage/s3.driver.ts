@@ -0,0 +1,73 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import type { StorageDriver } from "./storage.types";
+
+type S3StorageOptions = {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle: boolean;
+  /** Base URL for public objects; signed URLs are generated when omitted */
+  publicUrl?: string;
+  signedUrlExpiresIn: number;
+};
+
+/**
+ * Stores files in an S3-compatible bucket (AWS S3, MinIO, R2, ...)
+ */
+export const createS3Storage = (options: S3StorageOptions): StorageDriver => {
+  const client = new S3Client({
+    region: options.region,
+    endpoint: options.endpoint,
+    forcePathStyle: options.forcePathStyle,
+    credentials:
+      options.accessKeyId && options.secretAccessKey
+        ? {
+            accessKeyId: options.accessKeyId,
+            secretAccessKey: options.secretAccessKey,
+          }
+        : undefined,
+  });
+
+  return {
+    async put(key, body, contentType) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: options.bucket,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+          CacheControl: "public, max-age=31536000, immutable",
+        })
+      );
+    },
+
+    async delete(key) {
+      await client.send(
+        new DeleteObjectCommand({
+          Bucket: options.bucket,
+          Key: key,
+        })
+      );
+    },
+
+    async getUrl(key) {
+      if (options.publicUrl) {
+        return `${options.publicUrl.replace(/\/$/, "")}/${key}`;
+      }
+
+      return getSignedUrl(
+        client,
+        new GetObjectCommand({ Bucket: options.bucket, Key: key }),
+        { expiresIn: options.signedUrlExpiresIn }
+      );
+    },
+  };
+};
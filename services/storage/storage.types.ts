@@ -0,0 +1,8 @@
+export interface StorageDriver {
+  /** Stores a file under the given key, replacing any existing one */
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  /** Removes a file; missing files are ignored */
+  delete(key: string): Promise<void>;
+  /** Returns a URL the client can load the file from (public or signed) */
+  getUrl(key: string): Promise<string>;
+}
@@ -0,0 +1,85 @@
+import crypto from "crypto";
+import { and, eq, gt, isNull } from "drizzle-orm";
+import { db } from "../db";
+import { refreshTokens, users } from "../db/schema";
+
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+/**
+ * Creates a new opaque refresh token. Only its hash is stored.
+ */
+export const issueRefreshToken = async (userId: number) => {
+  const token = crypto.randomBytes(48).toString("base64url");
+  const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  await db.insert(refreshTokens).values({
+    userId,
+    tokenHash: hashToken(token),
+    expiresAt,
+  });
+
+  return { token, expiresAt };
+};
+
+/**
+ * Exchanges a refresh token for a new one. Presenting an already revoked
+ * token is treated as theft and revokes every session of the user.
+ */
+export const rotateRefreshToken = async (token: string) => {
+  const [stored] = await db
+    .select({ refreshToken: refreshTokens, user: users })
+    .from(refreshTokens)
+    .innerJoin(users, eq(refreshTokens.userId, users.id))
+    .where(eq(refreshTokens.tokenHash, hashToken(token)))
+    .limit(1);
+
+  if (!stored) {
+    return null;
+  }
+
+  if (stored.refreshToken.revokedAt) {
+    await revokeAllRefreshTokens(stored.user.id);
+    return null;
+  }
+
+  if (stored.refreshToken.expiresAt <= new Date() || !stored.user.isActive) {
+    return null;
+  }
+
+  const [revoked] = await db
+    .update(refreshTokens)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(refreshTokens.id, stored.refreshToken.id), isNull(refreshTokens.revokedAt)))
+    .returning({ id: refreshTokens.id });
+
+  // Another request rotated the same token first
+  if (!revoked) {
+    return null;
+  }
+
+  const refreshToken = await issueRefreshToken(stored.user.id);
+  return { user: stored.user, refreshToken };
+};
+
+export const revokeRefreshToken = async (token: string) => {
+  await db
+    .update(refreshTokens)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(refreshTokens.tokenHash, hashToken(token)), isNull(refreshTokens.revokedAt)));
+};
+
+export const revokeAllRefreshTokens = async (userId: number) => {
+  await db
+    .update(refreshTokens)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(
+        eq(refreshTokens.userId, userId),
+        isNull(refreshTokens.revokedAt),
+        gt(refreshTokens.expiresAt, new Date())
+      )
+    );
+};
@@ -0,0 +1,288 @@
+import { and, asc, eq, inArray, isNull } from "drizzle-orm";
+import { z } from "zod";
+import { db, type DbExecutor } from "../db";
+import { category, categoryTranslations, product, productTranslations } from "../db/schema";
+import { mergeSpecTemplates, type SpecField } from "./spec-template.service";
+
+/**
+ * Normalizes a language tag to "de" or "de-AT"
+ */
+const normalizeLocale = (value: string) => {
+  const [language, region] = value.trim().split(/[-_]/);
+  if (!language) return "";
+  return region ? `${language.toLowerCase()}-${region.toUpperCase()}` : language.toLowerCase();
+};
+
+// Product and category columns hold the content in this locale
+export const DEFAULT_LOCALE = normalizeLocale(process.env.DEFAULT_LOCALE || "en");
+
+export const SUPPORTED_LOCALES = [
+  ...new Set([
+    DEFAULT_LOCALE,
+    ...(process.env.SUPPORTED_LOCALES || "en,de")
+      .split(",")
+      .map((locale) => normalizeLocale(locale))
+      .filter(Boolean),
+  ]),
+];
+
+// Locales translations can be stored for
+export const TRANSLATION_LOCALES = SUPPORTED_LOCALES.filter((locale) => locale !== DEFAULT_LOCALE);
+
+export const TRANSLATION_ENTITIES = ["product", "category"] as const;
+export type TranslationEntity = (typeof TRANSLATION_ENTITIES)[number];
+
+export const translationLocaleSchema = z
+  .string()
+  .transform(normalizeLocale)
+  .refine((locale) => TRANSLATION_LOCALES.includes(locale), {
+    message: `Locale must be one of: ${TRANSLATION_LOCALES.join(", ")}`,
+  });
+
+/**
+ * Parses an Accept-Language header into language tags, most preferred first
+ */
+export const parseAcceptLanguage = (header: string | undefined) =>
+  (header ?? "")
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(";");
+      const quality = params.find((param) => param.trim().startsWith("q="));
+      return { tag: tag.trim(), quality: quality ? Number(quality.trim().slice(2)) : 1, index };
+    })
+    .filter((entry) => entry.tag && entry.tag !== "*" && entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map((entry) => entry.tag);
+
+/**
+ * Turns requested language tags into the locales content is looked up in:
+ * each supported tag, then its language without region, up to DEFAULT_LOCALE.
+ * e.g. ["de-AT", "fr"] -> ["de-AT", "de", "fr", "en"], ["de", "en", "fr"] -> ["de", "en"]
+ */
+export const buildLocaleChain = (requested: string[]) => {
+  const chain: string[] = [];
+
+  for (const tag of requested.map(normalizeLocale)) {
+    for (const candidate of [tag, tag.split("-")[0]]) {
+      if (SUPPORTED_LOCALES.includes(candidate) && !chain.includes(candidate)) {
+        chain.push(candidate);
+      }
+    }
+  }
+
+  // The stored content ends the chain, locales the client likes less are never used
+  const defaultIndex = chain.indexOf(DEFAULT_LOCALE);
+  return defaultIndex === -1 ? [...chain, DEFAULT_LOCALE] : chain.slice(0, defaultIndex + 1);
+};
+
+type TranslatableCategory = { id: number; name: string; description: string };
+
+type TranslatableProduct = {
+  id: number;
+  name: string;
+  description: string;
+  machineData: unknown;
+  categories: (TranslatableCategory & { specTemplate: SpecField[] })[];
+};
+
+// Picks the first translated value along the chain, the stored value for DEFAULT_LOCALE
+const pickTranslation = <R extends { locale: string }, K extends keyof R>(
+  rows: R[],
+  locales: string[],
+  field: K
+) => {
+  for (const locale of locales) {
+    if (locale === DEFAULT_LOCALE) return undefined;
+    const value = rows.find((row) => row.locale === locale)?.[field];
+    if (value !== null && value !== undefined) return { locale, value: value as NonNullable<R[K]> };
+  }
+  return undefined;
+};
+
+/**
+ * Replaces names and descriptions of categories with their translations
+ * along the locale chain
+ */
+export const localizeCategories = async <T extends TranslatableCategory>(
+  categories: T[],
+  locales: string[],
+  executor: DbExecutor = db
+) => {
+  const translationLocales = locales.filter((locale) => locale !== DEFAULT_LOCALE);
+  const rows =
+    categories.length > 0 && translationLocales.length > 0
+      ? await executor
+          .select()
+          .from(categoryTranslations)
+          .where(
+            and(
+              inArray(categoryTranslations.categoryId, categories.map((cat) => cat.id)),
+              inArray(categoryTranslations.locale, translationLocales)
+            )
+          )
+      : [];
+
+  return categories.map((cat) => {
+    const translations = rows.filter((row) => row.categoryId === cat.id);
+    const name = pickTranslation(translations, locales, "name");
+    const description = pickTranslation(translations, locales, "description");
+
+    return {
+      ...cat,
+      name: name?.value ?? cat.name,
+      description: description?.value ?? cat.description,
+      locale: name?.locale ?? DEFAULT_LOCALE,
+    };
+  });
+};
+
+/**
+ * Replaces names and descriptions of hydrated products and their categories
+ * with translations along the locale chain, and adds `machineDataLabels`:
+ * the spec template labels overridden by translated labels.
+ */
+export const localizeProducts = async <T extends TranslatableProduct>(
+  products: T[],
+  locales: string[],
+  executor: DbExecutor = db
+) => {
+  const translationLocales = locales.filter((locale) => locale !== DEFAULT_LOCALE);
+  const rows =
+    products.length > 0 && translationLocales.length > 0
+      ? await executor
+          .select()
+          .from(productTranslations)
+          .where(
+            and(
+              inArray(productTranslations.productId, products.map((prod) => prod.id)),
+              inArray(productTranslations.locale, translationLocales)
+            )
+          )
+      : [];
+
+  // Categories are shared between products, translate each once
+  const localizedCategories = new Map(
+    (await localizeCategories(products.flatMap((prod) => prod.categories), locales, executor)).map(
+      (cat) => [cat.id, cat]
+    )
+  );
+
+  return products.map((prod) => {
+    const translations = rows.filter((row) => row.productId === prod.id);
+    const name = pickTranslation(translations, locales, "name");
+    const description = pickTranslation(translations, locales, "description");
+
+    const templateLabels = Object.fromEntries(
+      mergeSpecTemplates(prod.categories.map((cat) => cat.specTemplate)).map((field) => [
+        field.key,
+        field.label,
+      ])
+    );
+    // Less preferred locales first so that preferred labels win
+    const translatedLabels = [...translationLocales]
+      .reverse()
+      .map((locale) => translations.find((row) => row.locale === locale)?.machineDataLabels ?? {});
+
+    return {
+      ...prod,
+      name: name?.value ?? prod.name,
+      description: description?.value ?? prod.description,
+      locale: name?.locale ?? DEFAULT_LOCALE,
+      machineDataLabels: Object.assign({}, templateLabels, ...translatedLabels) as Record<string, string>,
+      categories: prod.categories.map((cat) => ({ ...cat, ...localizedCategories.get(cat.id)! })),
+    };
+  });
+};
+
+export const listProductTranslations = (productId: number, executor: DbExecutor = db) =>
+  executor
+    .select()
+    .from(productTranslations)
+    .where(eq(productTranslations.productId, productId))
+    .orderBy(asc(productTranslations.locale));
+
+export const listCategoryTranslations = (categoryId: number, executor: DbExecutor = db) =>
+  executor
+    .select()
+    .from(categoryTranslations)
+    .where(eq(categoryTranslations.categoryId, categoryId))
+    .orderBy(asc(categoryTranslations.locale));
+
+const machineDataKeys = (machineData: unknown) =>
+  machineData && typeof machineData === "object" && !Array.isArray(machineData)
+    ? Object.keys(machineData)
+    : [];
+
+type MissingTranslation = {
+  entityType: TranslationEntity;
+  id: number;
+  name: string;
+  locale: string;
+  missing: string[];
+};
+
+/**
+ * Lists products and categories (not in the trash) whose translations are
+ * missing or incomplete. Missing machineData labels are reported per key.
+ */
+export const findMissingTranslations = async ({
+  locales = TRANSLATION_LOCALES,
+  entityType,
+}: {
+  locales?: string[];
+  entityType?: TranslationEntity;
+}) => {
+  const missing: MissingTranslation[] = [];
+
+  if (entityType !== "category") {
+    const products = await db
+      .select({ id: product.id, name: product.name, machineData: product.machineData })
+      .from(product)
+      .where(isNull(product.deletedAt))
+      .orderBy(asc(product.id));
+    const rows = await db
+      .select()
+      .from(productTranslations)
+      .where(inArray(productTranslations.locale, locales));
+
+    for (const locale of locales) {
+      for (const prod of products) {
+        const row = rows.find((item) => item.productId === prod.id && item.locale === locale);
+        const fields = [
+          ...(row?.name ? [] : ["name"]),
+          ...(row?.description ? [] : ["description"]),
+          ...machineDataKeys(prod.machineData)
+            .filter((key) => !row?.machineDataLabels[key])
+            .map((key) => `machineDataLabels.${key}`),
+        ];
+        if (fields.length > 0) {
+          missing.push({ entityType: "product", id: prod.id, name: prod.name, locale, missing: fields });
+        }
+      }
+    }
+  }
+
+  if (entityType !== "product") {
+    const categories = await db
+      .select({ id: category.id, name: category.name })
+      .from(category)
+      .where(isNull(category.deletedAt))
+      .orderBy(asc(category.id));
+    const rows = await db
+      .select()
+      .from(categoryTranslations)
+      .where(inArray(categoryTranslations.locale, locales));
+
+    for (const locale of locales) {
+      for (const cat of categories) {
+        const row = rows.find((item) => item.categoryId === cat.id && item.locale === locale);
+        const fields = [...(row?.name ? [] : ["name"]), ...(row?.description ? [] : ["description"])];
+        if (fields.length > 0) {
+          missing.push({ entityType: "category", id: cat.id, name: cat.name, locale, missing: fields });
+        }
+      }
+    }
+  }
+
+  return missing;
+};
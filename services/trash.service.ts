@@ -0,0 +1,115 @@
+import { and, eq, isNotNull, lt } from "drizzle-orm";
+import { db, type DbExecutor } from "../db";
+import { category, product, productCategory, productImages } from "../db/schema";
+import { getImageFiles } from "./image-processing.service";
+import { deleteStoredFiles } from "./storage";
+import { getProductSnapshot, recordAudit } from "./audit.service";
+import { deleteSlugHistory } from "./slug.service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+const PURGE_INTERVAL_MS = Number(process.env.TRASH_PURGE_INTERVAL_MS) || 60 * 60 * 1000;
+
+/**
+ * Permanently deletes a trashed product and returns the files to remove
+ * once the transaction has been committed
+ */
+const purgeProduct = async (executor: DbExecutor, productId: number, runId: string) => {
+  const before = await getProductSnapshot(productId, executor);
+  const images = await executor
+    .select({ url: productImages.url, variants: productImages.variants })
+    .from(productImages)
+    .where(eq(productImages.productId, productId));
+
+  // Images and category links cascade
+  await executor.delete(product).where(eq(product.id, productId));
+  await deleteSlugHistory(executor, "product", productId);
+
+  await recordAudit(executor, { requestId: runId }, {
+    entityType: "product",
+    entityId: productId,
+    action: "purge",
+    before,
+    after: null,
+  });
+
+  return images.flatMap((image) => getImageFiles(image));
+};
+
+const purgeCategory = async (
+  executor: DbExecutor,
+  trashed: typeof category.$inferSelect,
+  runId: string
+) => {
+  await executor.delete(productCategory).where(eq(productCategory.categoryId, trashed.id));
+  await executor.delete(category).where(eq(category.id, trashed.id));
+  await deleteSlugHistory(executor, "category", trashed.id);
+
+  await recordAudit(executor, { requestId: runId }, {
+    entityType: "category",
+    entityId: trashed.id,
+    action: "purge",
+    before: trashed,
+    after: null,
+  });
+
+  return getImageFiles({ url: trashed.imageUrl, variants: trashed.imageVariants });
+};
+
+/**
+ * Permanently deletes products and categories that have been in the trash
+ * for longer than the retention period, together with their image files
+ */
+export const purgeTrash = async (retentionDays = TRASH_RETENTION_DAYS) => {
+  const cutoff = new Date(Date.now() - retentionDays * DAY_MS);
+  const runId = `trash-purge-${Date.now()}`;
+
+  const { removedFiles, ...purged } = await db.transaction(async (tx) => {
+    const products = await tx
+      .select({ id: product.id })
+      .from(product)
+      .where(and(isNotNull(product.deletedAt), lt(product.deletedAt, cutoff)));
+
+    const categories = await tx
+      .select()
+      .from(category)
+      .where(and(isNotNull(category.deletedAt), lt(category.deletedAt, cutoff)));
+
+    const removedFiles: string[] = [];
+    for (const { id } of products) {
+      removedFiles.push(...(await purgeProduct(tx, id, runId)));
+    }
+    for (const trashed of categories) {
+      removedFiles.push(...(await purgeCategory(tx, trashed, runId)));
+    }
+
+    return { products: products.length, categories: categories.length, removedFiles };
+  });
+
+  await deleteStoredFiles(removedFiles);
+
+  return purged;
+};
+
+/**
+ * Runs purgeTrash periodically in the background
+ */
+export const startTrashPurgeJob = () => {
+  const run = async () => {
+    try {
+      const purged = await purgeTrash();
+      if (purged.products > 0 || purged.categories > 0) {
+        console.log(`Purged ${purged.products} product(s) and ${purged.categories} category(s) from the trash`);
+      }
+    } catch (error) {
+      console.error("Trash purge failed:", error);
+    }
+  };
+
+  const timer = setInterval(run, PURGE_INTERVAL_MS);
+  timer.unref();
+  void run();
+
+  return timer;
+};
@@ -1,11 +1,16 @@
-import { JwtPayload } from "jsonwebtoken";
+import type { JWTPayload } from "../middlewares/auth.middleware";
+import type { ProcessedImage } from "../services/image-processing.service";
 
 declare global {
   namespace Express {
     interface Request {
-      user?: JwtPayload;
+      requestId: string;
+      user?: JWTPayload;
+      processedImages?: ProcessedImage[];
+      // Locale fallback chain, see middlewares/locale.middleware.ts
+      locales: string[];
     }
   }
 }
 
-export {}; 
\ No newline at end of file
+export {};